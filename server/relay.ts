@@ -0,0 +1,212 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { Server, Socket } from 'socket.io';
+import type { Certificate, RelayAck, TransportEnvelope } from '../src/types';
+
+/**
+ * Minimal relay for Cipher Chat.
+ *
+ * Keeps room membership in memory and forwards envelopes between the
+ * members of a room. Envelopes are end-to-end encrypted by the clients, so
+ * the relay only ever looks at their room code and type.
+ */
+
+interface RelayOptions {
+  port: number;
+  host: string;
+  roomIdleMs: number; // Rooms without traffic for this long are closed
+  resumeGraceMs: number; // How long a room waits for a disconnected creator to come back
+  sweepIntervalMs: number;
+  maxPayloadBytes: number;
+  allowedOrigins: string[] | '*';
+}
+
+interface RelayRoom {
+  creator: string | null; // Socket id; null while the creator is away
+  creatorCert: Certificate | null;
+  resumeSecret: string; // Lets the creator take the room back after a reload
+  creatorLeftAt: number | null;
+  members: Set<string>;
+  lastActivity: number;
+}
+
+const ROOM_CODE_PATTERN = /^[A-Za-z0-9]{4,32}$/;
+
+const defaultOptions = (): RelayOptions => ({
+  port: Number(process.env.RELAY_PORT || 3001),
+  host: process.env.RELAY_HOST || '127.0.0.1',
+  roomIdleMs: Number(process.env.RELAY_ROOM_IDLE_MS || 30 * 60 * 1000),
+  resumeGraceMs: Number(process.env.RELAY_RESUME_GRACE_MS || 2 * 60 * 1000),
+  sweepIntervalMs: 60 * 1000,
+  maxPayloadBytes: Number(process.env.RELAY_MAX_PAYLOAD || 8 * 1024 * 1024),
+  allowedOrigins: process.env.RELAY_ALLOWED_ORIGINS?.split(',') || '*'
+});
+
+/**
+ * Create a relay server. Call `listen` to start accepting connections.
+ */
+export function createRelay(overrides: Partial<RelayOptions> = {}) {
+  const options = { ...defaultOptions(), ...overrides };
+  const rooms = new Map<string, RelayRoom>();
+  const httpServer = createServer();
+  const io = new Server(httpServer, {
+    cors: { origin: options.allowedOrigins },
+    maxHttpBufferSize: options.maxPayloadBytes
+  });
+
+  const closeRoom = (roomCode: string) => {
+    const closed: TransportEnvelope = { type: 'room_closed', roomCode };
+    io.to(roomCode).emit('envelope', closed);
+    io.socketsLeave(roomCode);
+    rooms.delete(roomCode);
+  };
+
+  // A creator that disconnects may only be reloading the page, so its room
+  // is held for the grace period; leaving on purpose closes it at once
+  const leaveRoom = (socket: Socket, roomCode: string, disconnected: boolean = false) => {
+    const room = rooms.get(roomCode);
+    if (!room || !room.members.has(socket.id)) {
+      return;
+    }
+
+    if (room.creator === socket.id && disconnected && options.resumeGraceMs > 0) {
+      room.creator = null;
+      room.creatorLeftAt = Date.now();
+      room.members.delete(socket.id);
+    } else if (room.creator === socket.id) {
+      closeRoom(roomCode);
+    } else {
+      room.members.delete(socket.id);
+      socket.leave(roomCode);
+    }
+  };
+
+  io.on('connection', (socket) => {
+    socket.on('create_room', (
+      request: { roomCode: string; creatorCert: Certificate | null },
+      ack: (result: RelayAck) => void
+    ) => {
+      if (typeof request?.roomCode !== 'string' || !ROOM_CODE_PATTERN.test(request.roomCode)) {
+        ack({ ok: false, error: 'Invalid room code' });
+        return;
+      }
+      if (rooms.has(request.roomCode)) {
+        ack({ ok: false, error: 'Room already exists' });
+        return;
+      }
+
+      const resumeSecret = randomBytes(32).toString('base64url');
+      rooms.set(request.roomCode, {
+        creator: socket.id,
+        creatorCert: request.creatorCert || null,
+        resumeSecret,
+        creatorLeftAt: null,
+        members: new Set([socket.id]),
+        lastActivity: Date.now()
+      });
+      socket.join(request.roomCode);
+      ack({ ok: true, resumeSecret });
+    });
+
+    socket.on('resume_room', (
+      request: { roomCode: string; resumeSecret: string },
+      ack: (result: RelayAck) => void
+    ) => {
+      const room = typeof request?.roomCode === 'string' ? rooms.get(request.roomCode) : undefined;
+      const given = Buffer.from(typeof request?.resumeSecret === 'string' ? request.resumeSecret : '');
+      const expected = Buffer.from(room?.resumeSecret || '');
+      if (!room || room.creator !== null || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        ack({ ok: false, error: 'Room cannot be resumed' });
+        return;
+      }
+
+      room.creator = socket.id;
+      room.creatorLeftAt = null;
+      room.members.add(socket.id);
+      room.lastActivity = Date.now();
+      socket.join(request.roomCode);
+      ack({ ok: true, room: { roomCode: request.roomCode, creatorCert: room.creatorCert } });
+    });
+
+    socket.on('join_room', (request: { roomCode: string }, ack: (result: RelayAck) => void) => {
+      const room = typeof request?.roomCode === 'string' ? rooms.get(request.roomCode) : undefined;
+      if (!room) {
+        ack({ ok: false, error: 'Room not found' });
+        return;
+      }
+      if (room.creator === socket.id) {
+        ack({ ok: false, error: 'Cannot join your own room' });
+        return;
+      }
+
+      room.members.add(socket.id);
+      room.lastActivity = Date.now();
+      socket.join(request.roomCode);
+      ack({ ok: true, room: { roomCode: request.roomCode, creatorCert: room.creatorCert } });
+    });
+
+    socket.on('leave_room', (request: { roomCode: string }) => {
+      if (typeof request?.roomCode === 'string') {
+        leaveRoom(socket, request.roomCode);
+      }
+    });
+
+    // Forward envelopes to the other members, never back to the sender.
+    // Only the relay closes rooms, so members cannot pass off a close as its own.
+    socket.on('envelope', (envelope: TransportEnvelope) => {
+      const room = typeof envelope?.roomCode === 'string' ? rooms.get(envelope.roomCode) : undefined;
+      if (!room || !room.members.has(socket.id) || envelope.type === 'room_closed') {
+        return;
+      }
+
+      room.lastActivity = Date.now();
+      socket.to(envelope.roomCode).emit('envelope', envelope);
+    });
+
+    socket.on('disconnect', () => {
+      rooms.forEach((_room, roomCode) => leaveRoom(socket, roomCode, true));
+    });
+  });
+
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+    const cutoff = now - options.roomIdleMs;
+    rooms.forEach((room, roomCode) => {
+      if (room.lastActivity < cutoff) {
+        console.log(`Closing idle room ${roomCode}`);
+        closeRoom(roomCode);
+      } else if (room.creatorLeftAt !== null && room.creatorLeftAt < now - options.resumeGraceMs) {
+        console.log(`Closing room ${roomCode}; its creator did not come back`);
+        closeRoom(roomCode);
+      }
+    });
+  }, options.sweepIntervalMs);
+
+  return {
+    io,
+    rooms,
+    listen: () => new Promise<void>((resolve) => {
+      httpServer.listen(options.port, options.host, () => resolve());
+    }),
+    close: () => new Promise<void>((resolve) => {
+      clearInterval(sweepTimer);
+      io.close(() => resolve());
+    }),
+    options
+  };
+}
+
+// Run directly: `npm run relay`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const relay = createRelay();
+  relay.listen().then(() => {
+    console.log(`Cipher Chat relay listening on ws://${relay.options.host}:${relay.options.port}`);
+  });
+
+  const shutdown = () => {
+    relay.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
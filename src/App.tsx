@@ -2,22 +2,28 @@ import React, { useState } from 'react';
 import ChatScreen from './components/ChatScreen';
 import PairingScreen from './components/PairingScreen';
 import { ChatProvider } from './context/ChatContext';
+import { ContactsProvider } from './context/ContactsContext';
 import { CryptoProvider } from './context/CryptoContext';
+import { VaultProvider } from './context/VaultContext';
 
 function App() {
   const [isChatting, setIsChatting] = useState(false);
 
   return (
     <CryptoProvider>
-      <ChatProvider>
-        <div className="min-h-screen bg-gray-900 text-gray-100">
-          {!isChatting ? (
-            <PairingScreen onPaired={() => setIsChatting(true)} />
-          ) : (
-            <ChatScreen onLeave={() => setIsChatting(false)} />
-          )}
-        </div>
-      </ChatProvider>
+      <VaultProvider>
+        <ContactsProvider>
+          <ChatProvider>
+            <div className="min-h-screen bg-gray-900 text-gray-100">
+              {!isChatting ? (
+                <PairingScreen onPaired={() => setIsChatting(true)} />
+              ) : (
+                <ChatScreen onLeave={() => setIsChatting(false)} />
+              )}
+            </div>
+          </ChatProvider>
+        </ContactsProvider>
+      </VaultProvider>
     </CryptoProvider>
   );
 }
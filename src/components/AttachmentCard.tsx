@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import {
+  AlertTriangle, Check, Clock, Download, Eye, EyeOff, FileKey, FileText, Loader, PenLine,
+  ShieldAlert, ShieldCheck, ShieldX, X
+} from 'lucide-react';
+import { useContacts } from '../context/useContacts';
+import { CountersignStatus, DocumentInfo, RoomMember } from '../types';
+import { FileTransfer } from '../utils/fileTransfer';
+import { DigitalSigner } from '../utils/signing';
+
+interface AttachmentCardProps {
+  info: DocumentInfo;
+  url: string; // Object URL of the decrypted file; empty until it has arrived
+  fromPeer: boolean; // Only files from someone else get the safety prompt
+  members?: RoomMember[]; // To name countersigners
+  selfId?: string;
+  onCountersign?: (sign: boolean) => void;
+}
+
+const COUNTERSIGN_ICONS: Record<CountersignStatus, React.ReactNode> = {
+  pending: <Clock className="w-3 h-3 text-gray-400" aria-label="Pending" />,
+  signed: <Check className="w-3 h-3 text-green-400" aria-label="Signed" />,
+  declined: <X className="w-3 h-3 text-red-400" aria-label="Declined" />
+};
+
+// Extensions that can run code when opened
+const RISKY_EXTENSIONS = new Set([
+  'apk', 'app', 'bat', 'cmd', 'com', 'cpl', 'dll', 'dmg', 'exe', 'hta', 'htm', 'html', 'jar', 'js',
+  'jse', 'lnk', 'msi', 'msp', 'pif', 'ps1', 'reg', 'scr', 'sh', 'svg', 'vbe', 'vbs', 'wsf', 'xhtml'
+]);
+// Larger files are worth a second thought before they are written to disk
+const LARGE_FILE_BYTES = 100 * 1024 * 1024;
+// Text previews show at most this much of the file
+const TEXT_PREVIEW_BYTES = 64 * 1024;
+
+const TEXT_EXTENSIONS = new Set(['txt', 'md', 'csv', 'json', 'log', 'xml', 'yaml', 'yml']);
+
+const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+};
+
+// Badge for a signed document
+const renderVerification = (info: DocumentInfo, signer: string) => {
+  switch (info.verification) {
+    case 'pending':
+      return (
+        <span className="flex items-center space-x-1 text-gray-300">
+          <Loader className="w-3 h-3" />
+          <span>Signed - verifying once received</span>
+        </span>
+      );
+    case 'verified':
+      return (
+        <span className="flex items-center space-x-1 text-green-400">
+          <ShieldCheck className="w-3 h-3" />
+          <span>Signed by {signer} - verified</span>
+        </span>
+      );
+    case 'tampered':
+      return (
+        <span className="flex items-center space-x-1 text-red-400">
+          <ShieldX className="w-3 h-3" />
+          <span>Tampered - the file does not match its signature</span>
+        </span>
+      );
+    case 'untrusted':
+      return (
+        <span className="flex items-center space-x-1 text-yellow-300">
+          <ShieldAlert className="w-3 h-3" />
+          <span>Signed with a certificate other than the sender's paired one</span>
+        </span>
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * A file attachment: name, type and size, a download button, and an
+ * inline preview for text and PDF files. Signed documents carry a badge
+ * with the outcome of checking the signature, and who has countersigned.
+ */
+const AttachmentCard: React.FC<AttachmentCardProps> = ({
+  info,
+  url,
+  fromPeer,
+  members = [],
+  selfId,
+  onCountersign
+}) => {
+  const { displayName } = useContacts();
+  const [confirming, setConfirming] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [textPreview, setTextPreview] = useState<string | null>(null);
+
+  const extension = extensionOf(info.name);
+  const isRisky = RISKY_EXTENSIONS.has(extension);
+  const isLarge = info.size > LARGE_FILE_BYTES;
+  const isText = info.mimeType.startsWith('text/') || TEXT_EXTENSIONS.has(extension);
+  const isPdf = info.mimeType === 'application/pdf' || extension === 'pdf';
+
+  const download = () => {
+    setConfirming(false);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = info.name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleDownload = () => {
+    if (fromPeer && (isRisky || isLarge)) {
+      setConfirming(true);
+    } else {
+      download();
+    }
+  };
+
+  // Everyone's signature in one detached file, for the document signer
+  const saveSignatures = () => {
+    if (!info.signature) {
+      return;
+    }
+    const bundle = DigitalSigner.createSignatureBundle([info.signature, ...(info.countersignatures || [])]);
+    const bundleUrl = URL.createObjectURL(bundle);
+    const link = document.createElement('a');
+    link.href = bundleUrl;
+    link.download = `${info.name}.sig`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(bundleUrl);
+  };
+
+  const memberName = (id: string): string => {
+    const memberCert = members.find(member => member.id === id)?.certificate;
+    return id === selfId ? 'You' : memberCert ? displayName(memberCert) : 'Former member';
+  };
+
+  const countersign = Object.entries(info.countersign || {});
+  const canCountersign =
+    !!selfId && info.countersign?.[selfId] === 'pending' && info.verification === 'verified' && !!url;
+
+  const togglePreview = async () => {
+    if (showPreview) {
+      setShowPreview(false);
+      return;
+    }
+    setShowPreview(true);
+    if (isText && textPreview === null) {
+      try {
+        const blob = await (await fetch(url)).blob();
+        const text = await blob.slice(0, TEXT_PREVIEW_BYTES).text();
+        setTextPreview(blob.size > TEXT_PREVIEW_BYTES ? `${text}\n…` : text);
+      } catch (error) {
+        console.error('Failed to preview file:', error);
+        setTextPreview('Preview unavailable');
+      }
+    }
+  };
+
+  return (
+    <div className="my-1 p-3 bg-gray-600 rounded-lg min-w-[220px]">
+      <div className="flex items-center space-x-2">
+        <FileText className="w-5 h-5 text-blue-400 flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="font-medium truncate" title={info.name}>{info.name}</p>
+          <p className="text-xs opacity-75">
+            {FileTransfer.formatSize(info.size)} · {info.mimeType}
+          </p>
+        </div>
+      </div>
+
+      {info.signature && <div className="mt-2 text-xs">{renderVerification(info, displayName(info.signature.certificate))}</div>}
+
+      {countersign.length > 0 && (
+        <div className="mt-2 text-xs space-y-1">
+          <p className="opacity-75">Countersignatures</p>
+          {countersign.map(([memberId, status]) => (
+            <div key={memberId} className="flex items-center space-x-1">
+              {COUNTERSIGN_ICONS[status]}
+              <span>{memberName(memberId)}</span>
+              <span className="opacity-75">- {status}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canCountersign && onCountersign && (
+        <div className="flex items-center space-x-3 mt-2 text-sm">
+          <button
+            onClick={() => onCountersign(true)}
+            className="flex items-center space-x-1 text-green-300 hover:text-green-200"
+          >
+            <PenLine className="w-4 h-4" />
+            <span>Countersign</span>
+          </button>
+          <button
+            onClick={() => onCountersign(false)}
+            className="flex items-center space-x-1 text-gray-300 hover:text-white"
+          >
+            <X className="w-4 h-4" />
+            <span>Decline</span>
+          </button>
+        </div>
+      )}
+
+      {url && (
+        <div className="flex items-center space-x-3 mt-2 text-sm">
+          <button
+            onClick={handleDownload}
+            className="flex items-center space-x-1 text-blue-300 hover:text-blue-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download</span>
+          </button>
+          {(isText || isPdf) && (
+            <button
+              onClick={togglePreview}
+              className="flex items-center space-x-1 text-gray-300 hover:text-white"
+            >
+              {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              <span>{showPreview ? 'Hide' : 'Preview'}</span>
+            </button>
+          )}
+          {info.signature && (
+            <button
+              onClick={saveSignatures}
+              className="flex items-center space-x-1 text-gray-300 hover:text-white"
+              title="Save every signature as one .sig file"
+            >
+              <FileKey className="w-4 h-4" />
+              <span>Signatures</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {confirming && (
+        <div className="mt-2 p-2 bg-yellow-900 bg-opacity-40 border border-yellow-700 rounded text-xs">
+          <div className="flex items-start space-x-1 text-yellow-300">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {isRisky
+                ? `.${extension} files can run code on your computer. Only open it if you trust the sender.`
+                : `This file is ${FileTransfer.formatSize(info.size)}.`}
+            </span>
+          </div>
+          <div className="flex justify-end space-x-3 mt-2">
+            <button onClick={() => setConfirming(false)} className="text-gray-300 hover:text-white">
+              Cancel
+            </button>
+            <button onClick={download} className="text-yellow-300 hover:text-yellow-200 font-medium">
+              Download anyway
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showPreview && url && isPdf && (
+        <object data={url} type="application/pdf" className="w-full h-80 mt-2 rounded bg-white">
+          <p className="text-xs opacity-75">PDF preview is not supported in this browser</p>
+        </object>
+      )}
+      {showPreview && isText && textPreview !== null && (
+        <pre className="mt-2 p-2 bg-gray-800 rounded text-xs max-h-60 overflow-auto whitespace-pre-wrap break-words">
+          {textPreview}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentCard;
@@ -1,24 +1,85 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SendHorizontal, X, Image, Mic, Shield, Key, FileText, Settings, Eye, EyeOff } from 'lucide-react';
-import { useChat } from '../context/ChatContext';
-import { useCrypto } from '../context/CryptoContext';
+import { SendHorizontal, X, Image, Mic, Shield, Key, FileText, Eye, EyeOff, Users, UserCheck, UserX, Crown, Paperclip, FilePen, Reply, Timer, TimerOff, Flame, Database, RefreshCw, BookUser, ShieldAlert, BadgeCheck, ShieldQuestion } from 'lucide-react';
+import { useChat } from '../context/useChat';
+import { useContacts } from '../context/useContacts';
+import { useCrypto } from '../context/useCrypto';
+import { useVault } from '../context/useVault';
+import { Message, SendOptions } from '../types';
+import { ContactBook } from '../utils/contacts';
+import ContactsPanel from './ContactsPanel';
 import MessageList from './MessageList';
+import SafetyNumberPanel from './SafetyNumberPanel';
 import SimpleDocumentSigner from './SimpleDocumentSigner';
+import TrustAnchorList from './TrustAnchorList';
+import VaultPanel from './VaultPanel';
 import Button from './ui/Button';
 
 interface ChatScreenProps {
   onLeave: () => void;
 }
 
+// Disappearing timers on offer, for the conversation and single messages
+const TIMER_OPTIONS: { label: string; value: number | null }[] = [
+  { label: 'Off', value: null },
+  { label: '30 seconds', value: 30 * 1000 },
+  { label: '5 minutes', value: 5 * 60 * 1000 },
+  { label: '1 hour', value: 60 * 60 * 1000 },
+  { label: '1 day', value: 24 * 60 * 60 * 1000 },
+  { label: '1 week', value: 7 * 24 * 60 * 60 * 1000 }
+];
+
+const timerLabel = (value: number | null): string =>
+  TIMER_OPTIONS.find(option => option.value === value)?.label || `${Math.round((value || 0) / 1000)} seconds`;
+
 const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
-  const { messages, sendMessage, leaveChat, pairingCode, isPaired } = useChat();
-  const { certificate } = useCrypto();
+  const {
+    messages,
+    sendMessage,
+    retryMessage,
+    sendFile,
+    transfers,
+    resumeTransfer,
+    countersignDocument,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    disappearAfter,
+    setDisappearingTimer,
+    markViewed,
+    resumeNotice,
+    dismissResumeNotice,
+    leaveChat,
+    shareCode,
+    isPaired,
+    isGroup,
+    members,
+    incomingPairingRequest,
+    respondToPairing,
+    isConnected,
+    presence,
+    typingMembers,
+    setTyping
+  } = useChat();
+  const { certificate, identity } = useCrypto();
+  const { status: vaultStatus } = useVault();
+  const { displayName, keyChangeFor, isVerified, saveContact } = useContacts();
   const [messageInput, setMessageInput] = useState('');
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Next message's own timer; undefined follows the conversation's
+  const [messageTimer, setMessageTimer] = useState<number | null | undefined>(undefined);
+  const [viewOnce, setViewOnce] = useState(false);
+  const [showTimerMenu, setShowTimerMenu] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [showCode, setShowCode] = useState(false);
   const [showDocumentSigner, setShowDocumentSigner] = useState(false);
   const [showCertInfo, setShowCertInfo] = useState(false);
+  const [showVault, setShowVault] = useState(false);
+  const [showContacts, setShowContacts] = useState(false);
+  const [showSafety, setShowSafety] = useState(false);
+  const [dismissedKeyChanges, setDismissedKeyChanges] = useState<string[]>([]); // Member ids
+  const [showMembers, setShowMembers] = useState(false);
+  const [isResponding, setIsResponding] = useState(false);
   const [audioError, setAudioError] = useState<string>('');
   const [microphonePermission, setMicrophonePermission] = useState<'granted' | 'denied' | 'prompt' | 'unknown'>('unknown');
   
@@ -26,8 +87,11 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
   const audioStreamRef = useRef<MediaStream | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const signedDocumentInputRef = useRef<HTMLInputElement>(null);
   const messageEndRef = useRef<HTMLDivElement>(null);
   const recordingTimerRef = useRef<number>();
+  const typingTimerRef = useRef<number>();
 
   useEffect(() => {
     messageEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -45,7 +109,7 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
             setMicrophonePermission(permission.state);
           };
         }
-      } catch (error) {
+      } catch {
         console.log('Permission API not supported');
         setMicrophonePermission('unknown');
       }
@@ -128,11 +192,61 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
     }
   };
 
+  // Typing stops counting after a few seconds without a keystroke
+  const handleInputChange = (value: string) => {
+    setMessageInput(value);
+    window.clearTimeout(typingTimerRef.current);
+    if (value.trim()) {
+      setTyping(true);
+      typingTimerRef.current = window.setTimeout(() => setTyping(false), 3000);
+    } else {
+      setTyping(false);
+    }
+  };
+
+  useEffect(() => {
+    return () => window.clearTimeout(typingTimerRef.current);
+  }, []);
+
+  // Presence shown in the header: the peer's state, or how many members are around
+  const otherMembers = members.filter(member => member.id !== certificate?.id);
+  const peerState = otherMembers.length === 1 ? presence[otherMembers[0].id] || 'offline' : null;
+  const onlineCount = otherMembers.filter(member => presence[member.id] === 'online').length;
+  const connectionLabel = !isPaired
+    ? 'Waiting for Connection'
+    : isGroup
+      ? `${onlineCount} of ${otherMembers.length} online`
+      : peerState === 'online' ? 'Online' : peerState === 'away' ? 'Away' : 'Offline';
+  const connectionColor = !isPaired
+    ? 'bg-yellow-500'
+    : peerState === 'away' || (isGroup && isConnected && onlineCount === 0)
+      ? 'bg-amber-400'
+      : isConnected ? 'bg-green-500' : 'bg-gray-500';
+  const resumedCert = members.find(member => member.id === resumeNotice?.memberId)?.certificate;
+  const resumedName = resumeNotice && resumeNotice.memberId !== certificate?.id
+    ? resumedCert ? displayName(resumedCert) : 'A member'
+    : null;
+  const typingNames = typingMembers
+    .map(id => members.find(member => member.id === id)?.certificate)
+    .filter(Boolean)
+    .map(memberCert => displayName(memberCert!));
+  // Members using a contact's name with an identity key the contact does not have
+  const keyChanges = otherMembers
+    .filter(member => !dismissedKeyChanges.includes(member.id))
+    .map(member => ({ member, contact: keyChangeFor(member.certificate) }))
+    .filter(change => change.contact);
+  const joinerKeyChange = incomingPairingRequest ? keyChangeFor(incomingPairingRequest.certificate) : null;
+  const verifiedCount = otherMembers.filter(member => isVerified(member.certificate)).length;
+
   const handleSendMessage = async () => {
     if (!messageInput.trim() || !isPaired) return;
+    window.clearTimeout(typingTimerRef.current);
+    setTyping(false);
     try {
-      await sendMessage(messageInput, 'text');
+      await sendMessage(messageInput, 'text', { replyToId: replyingTo?.id, expiresIn: messageTimer });
       setMessageInput('');
+      setReplyingTo(null);
+      setMessageTimer(undefined);
     } catch (error) {
       console.error('Failed to send message:', error);
     }
@@ -142,18 +256,11 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
     const file = e.target.files?.[0];
     if (!file || !isPaired) return;
 
-    if (file.size > 5 * 1024 * 1024) { // 5MB limit
-      setAudioError('Image file too large. Please choose a file under 5MB.');
-      return;
-    }
-
     try {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        const dataUrl = event.target?.result as string;
-        await sendMessage(dataUrl, 'image');
-      };
-      reader.readAsDataURL(file);
+      // Sent in encrypted chunks, so large images are fine
+      await sendFile(file, false, { expiresIn: messageTimer, viewOnce });
+      setMessageTimer(undefined);
+      setViewOnce(false);
     } catch (error) {
       console.error('Failed to upload image:', error);
       setAudioError('Failed to upload image. Please try again.');
@@ -164,8 +271,79 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
     }
   };
 
+  const handleAttachmentUpload = async (e: React.ChangeEvent<HTMLInputElement>, sign: boolean) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file || !isPaired) return;
+
+    try {
+      await sendFile(file, sign, { expiresIn: messageTimer });
+      setMessageTimer(undefined);
+    } catch (error) {
+      console.error('Failed to send file:', error);
+      setAudioError(sign ? 'Failed to sign and send document. Please try again.' : 'Failed to send file. Please try again.');
+    } finally {
+      input.value = '';
+    }
+  };
+
+  const handleCountersign = async (messageId: string, sign: boolean) => {
+    try {
+      await countersignDocument(messageId, sign);
+    } catch (error) {
+      console.error('Failed to countersign document:', error);
+      setAudioError('Failed to countersign document. Please try again.');
+    }
+  };
+
+  const handleEdit = async (id: string, content: string) => {
+    try {
+      await editMessage(id, content);
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+      setAudioError('Failed to edit message. Please try again.');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMessage(id);
+    } catch (error) {
+      console.error('Failed to delete message:', error);
+      setAudioError('Failed to delete message. Please try again.');
+    }
+  };
+
+  const handleReact = async (messageId: string, emoji: string) => {
+    try {
+      await toggleReaction(messageId, emoji);
+    } catch (error) {
+      console.error('Failed to send reaction:', error);
+    }
+  };
+
+  const handleTimerChange = async (duration: number | null) => {
+    setShowTimerMenu(false);
+    try {
+      await setDisappearingTimer(duration);
+    } catch (error) {
+      console.error('Failed to set disappearing timer:', error);
+      setAudioError('Failed to change the disappearing timer. Please try again.');
+    }
+  };
+
+  const handleViewed = async (id: string) => {
+    try {
+      await markViewed(id);
+    } catch (error) {
+      console.error('Failed to report view-once message as opened:', error);
+    }
+  };
+
   const startRecording = async () => {
     if (!isPaired) return;
+    // Chosen before recording started
+    const options: SendOptions = { expiresIn: messageTimer, viewOnce };
     
     // Check if we need to request permission first
     if (microphonePermission !== 'granted') {
@@ -239,7 +417,9 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
               if (audioDataUrl && isPaired) {
                 try {
                   console.log('Sending audio message...');
-                  await sendMessage(audioDataUrl, 'audio');
+                  await sendMessage(audioDataUrl, 'audio', options);
+                  setMessageTimer(undefined);
+                  setViewOnce(false);
                 } catch (error) {
                   console.error('Failed to send audio:', error);
                   setAudioError('Failed to send audio message. Please try again.');
@@ -338,6 +518,18 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
     onLeave();
   };
 
+  // Group rooms: the creator admits later joiners from the chat
+  const handlePairingResponse = async (accept: boolean) => {
+    setIsResponding(true);
+    try {
+      await respondToPairing(accept);
+    } catch (error) {
+      console.error('Pairing response failed:', error);
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -404,32 +596,102 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
       <div className="bg-gray-800 p-4 flex items-center justify-between">
         <div className="flex items-center space-x-4">
           <div className="flex items-center">
-            <div className={`w-3 h-3 rounded-full mr-2 ${isPaired ? 'bg-green-500' : 'bg-yellow-500'}`}></div>
-            <span className="font-medium">{isPaired ? 'Connected' : 'Waiting for Connection'}</span>
+            <div className={`w-3 h-3 rounded-full mr-2 ${connectionColor}`}></div>
+            <span className="font-medium">{connectionLabel}</span>
           </div>
-          {pairingCode && (
+          {shareCode && (
             <div className="flex items-center space-x-2">
               <button
                 onClick={() => setShowCode(!showCode)}
                 className="flex items-center space-x-2 px-3 py-1 bg-gray-700 rounded-full text-sm hover:bg-gray-600 transition-colors"
               >
                 <Key className="w-4 h-4" />
-                <span>{showCode ? pairingCode : '••••••'}</span>
+                <span>{showCode ? shareCode : '••••••'}</span>
                 {showCode ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
               </button>
             </div>
           )}
+          {isGroup && (
+            <button
+              onClick={() => setShowMembers(!showMembers)}
+              className="flex items-center space-x-2 px-3 py-1 bg-gray-700 rounded-full text-sm hover:bg-gray-600 transition-colors"
+              title="Members"
+            >
+              <Users className="w-4 h-4" />
+              <span>{members.length}</span>
+            </button>
+          )}
+          {isPaired && (
+            <div className="relative">
+              <button
+                onClick={() => setShowTimerMenu(!showTimerMenu)}
+                className="flex items-center space-x-2 px-3 py-1 bg-gray-700 rounded-full text-sm hover:bg-gray-600 transition-colors"
+                title="Disappearing messages"
+              >
+                {disappearAfter ? <Timer className="w-4 h-4 text-amber-300" /> : <TimerOff className="w-4 h-4" />}
+                <span className="hidden sm:inline">{disappearAfter ? timerLabel(disappearAfter) : 'Off'}</span>
+              </button>
+              {showTimerMenu && (
+                <div className="absolute top-9 left-0 z-20 w-44 bg-gray-800 border border-gray-700 rounded-lg shadow-xl py-1 text-sm">
+                  <p className="px-3 py-1 text-xs text-gray-400">Messages disappear after</p>
+                  {TIMER_OPTIONS.map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => handleTimerChange(option.value)}
+                      className={`block w-full text-left px-3 py-1 hover:bg-gray-700 ${
+                        option.value === disappearAfter ? 'text-amber-300' : ''
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           {certificate && (
             <button
               onClick={() => setShowCertInfo(!showCertInfo)}
               className="flex items-center space-x-2 px-3 py-1 bg-indigo-700 rounded-full text-sm hover:bg-indigo-600 transition-colors"
             >
               <Shield className="w-4 h-4" />
-              <span className="hidden sm:inline">{certificate.subject.split('-')[0]}</span>
+              <span className="hidden sm:inline">{ContactBook.subjectName(certificate)}</span>
+            </button>
+          )}
+          {isPaired && otherMembers.length > 0 && (
+            <button
+              onClick={() => setShowSafety(!showSafety)}
+              className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm transition-colors ${
+                verifiedCount === otherMembers.length
+                  ? 'bg-green-800 text-green-200 hover:bg-green-700'
+                  : 'bg-amber-900/60 text-amber-200 hover:bg-amber-800/60'
+              }`}
+              title="Safety numbers"
+            >
+              {verifiedCount === otherMembers.length ? <BadgeCheck className="w-4 h-4" /> : <ShieldQuestion className="w-4 h-4" />}
+              <span className="hidden sm:inline">
+                {isGroup
+                  ? `${verifiedCount}/${otherMembers.length} verified`
+                  : verifiedCount === otherMembers.length ? 'Verified' : 'Verify'}
+              </span>
             </button>
           )}
         </div>
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowContacts(!showContacts)}
+            className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+            title="Contacts"
+          >
+            <BookUser className="w-5 h-5 text-gray-400" />
+          </button>
+          <button
+            onClick={() => setShowVault(!showVault)}
+            className="p-2 hover:bg-gray-700 rounded-full transition-colors"
+            title={`Local history: ${vaultStatus === 'unlocked' ? 'saving' : vaultStatus}`}
+          >
+            <Database className={`w-5 h-5 ${vaultStatus === 'unlocked' ? 'text-green-400' : 'text-gray-400'}`} />
+          </button>
           <button
             onClick={() => setShowDocumentSigner(true)}
             className="p-2 hover:bg-gray-700 rounded-full transition-colors"
@@ -447,6 +709,19 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
         </div>
       </div>
 
+      {/* Local History */}
+      {showVault && <VaultPanel onClose={() => setShowVault(false)} />}
+
+      {/* Contacts */}
+      {showContacts && (
+        <ContactsPanel members={members} selfId={certificate?.id} onClose={() => setShowContacts(false)} />
+      )}
+
+      {/* Safety Numbers */}
+      {showSafety && (
+        <SafetyNumberPanel members={members} selfId={certificate?.id} onClose={() => setShowSafety(false)} />
+      )}
+
       {/* Certificate Info Modal */}
       {showCertInfo && certificate && (
         <div className="absolute top-16 left-4 right-4 z-10 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-xl">
@@ -465,8 +740,21 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
           <div className="space-y-2 text-sm">
             <div>
               <span className="text-gray-400">Subject:</span>
-              <span className="ml-2 font-mono">{certificate.subject.split('-')[0]}</span>
+              <span className="ml-2 font-mono">{ContactBook.subjectName(certificate)}</span>
+            </div>
+            <div>
+              <span className="text-gray-400">Issuer:</span>
+              <span className="ml-2 font-mono text-xs">{certificate.issuer}</span>
             </div>
+            {identity && (
+              <div>
+                <span className="text-gray-400">Identity Fingerprint:</span>
+                <p className="mt-1 font-mono text-xs break-all">{identity.fingerprint}</p>
+                {!identity.persisted && (
+                  <p className="text-xs text-yellow-300">This browser cannot store it; a new identity is made next time</p>
+                )}
+              </div>
+            )}
             <div>
               <span className="text-gray-400">Session Started:</span>
               <span className="ml-2">{formatDate(certificate.issuedAt)}</span>
@@ -483,9 +771,129 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
               <p className="text-green-300 text-xs">
                 ✓ Certificate expires when connection ends<br/>
                 ✓ Valid only for current chat session
+                {identity && <><br/>✓ Issued by your identity, which stays the same between sessions</>}
               </p>
             </div>
           </div>
+          <TrustAnchorList />
+        </div>
+      )}
+
+      {/* Member List */}
+      {showMembers && isGroup && (
+        <div className="absolute top-16 left-4 right-4 z-10 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-xl">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold flex items-center">
+              <Users className="w-4 h-4 mr-2" />
+              Members ({members.length})
+            </h3>
+            <button
+              onClick={() => setShowMembers(false)}
+              className="text-gray-400 hover:text-white"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="space-y-2 text-sm">
+            {members.map(member => (
+              <li key={member.id} className="flex items-center justify-between">
+                <span className="font-mono">
+                  {member.id === certificate?.id ? ContactBook.subjectName(member.certificate) : displayName(member.certificate)}
+                  {member.id === certificate?.id && <span className="text-gray-400"> (you)</span>}
+                </span>
+                {member.isCreator && (
+                  <span className="flex items-center text-xs text-amber-300">
+                    <Crown className="w-3 h-3 mr-1" />
+                    Creator
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Join Request */}
+      {isPaired && incomingPairingRequest && (
+        <div className="bg-indigo-900/40 border-b border-indigo-700 p-3 flex items-center justify-between">
+          <div className="text-sm">
+            <span className="font-medium">{displayName(incomingPairingRequest.certificate)}</span>
+            <span className="text-indigo-200"> asks to join the room</span>
+            {joinerKeyChange && (
+              <p className="flex items-center text-xs text-red-300 mt-1">
+                <ShieldAlert className="w-3 h-3 mr-1" />
+                Not the identity key saved for your contact {joinerKeyChange.nickname}
+              </p>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              onClick={() => handlePairingResponse(false)}
+              variant="secondary"
+              size="sm"
+              disabled={isResponding}
+            >
+              <UserX className="w-4 h-4 mr-1" />
+              Reject
+            </Button>
+            <Button
+              onClick={() => handlePairingResponse(true)}
+              size="sm"
+              isLoading={isResponding}
+            >
+              <UserCheck className="w-4 h-4 mr-1" />
+              Accept
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Identity Key Changes */}
+      {keyChanges.map(({ member, contact }) => (
+        <div key={member.id} className="bg-red-900/60 border-b border-red-600 p-3 text-sm">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-2 text-red-200">
+              <ShieldAlert className="w-5 h-5 flex-shrink-0 text-red-400" />
+              <div>
+                <p className="font-semibold">
+                  {ContactBook.subjectName(member.certificate)} is not using the identity key saved for your contact {contact!.nickname}
+                </p>
+                <p className="text-xs">
+                  This may be a new device or browser, or someone else using their name. Check with them another way
+                  before trusting anything they send.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setDismissedKeyChanges(prev => [...prev, member.id])}
+              className="text-red-300 hover:text-white"
+              aria-label="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex justify-end mt-2">
+            <Button size="sm" variant="secondary" onClick={() => saveContact(member.certificate, contact!.nickname, contact!)}>
+              Use the new key for {contact!.nickname}
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {/* Resumed Session */}
+      {isPaired && resumeNotice && (
+        <div className="bg-sky-900/40 border-b border-sky-700 p-3 flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-2 text-sky-200">
+            <RefreshCw className="w-4 h-4" />
+            <span>
+              {resumedName
+                ? `${resumedName} reloaded and resumed the session at ${new Date(resumeNotice.resumedAt).toLocaleTimeString()}`
+                : 'Session resumed after reload; no new pairing was needed'}
+            </span>
+          </div>
+          <button onClick={dismissResumeNotice} className="text-sky-300 hover:text-white" aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
         </div>
       )}
 
@@ -499,23 +907,65 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
             {certificate && (
               <div className="mt-4 text-center">
                 <p className="text-xs text-gray-500">Your digital identity is ready</p>
-                <p className="text-xs font-mono text-indigo-400">{certificate.subject.split('-')[0]}</p>
+                <p className="text-xs font-mono text-indigo-400">{ContactBook.subjectName(certificate)}</p>
               </div>
             )}
           </div>
         ) : (
-          <MessageList messages={messages} />
+          <MessageList
+            messages={messages}
+            transfers={transfers}
+            onRetry={retryMessage}
+            onResumeTransfer={resumeTransfer}
+            members={members}
+            selfId={certificate?.id}
+            onCountersign={handleCountersign}
+            onEdit={handleEdit}
+            onDelete={handleDelete}
+            onReply={setReplyingTo}
+            onReact={handleReact}
+            onViewed={handleViewed}
+          />
         )}
         <div ref={messageEndRef} />
       </div>
 
+      {/* Typing Indicator */}
+      {typingNames.length > 0 && (
+        <div className="bg-gray-900 px-4 pb-1 text-xs text-gray-400 italic">
+          {typingNames.length === 1
+            ? `${typingNames[0]} is typing…`
+            : `${typingNames.join(', ')} are typing…`}
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="bg-gray-800 p-4 border-t border-gray-700">
+        {replyingTo && (
+          <div className="flex items-center justify-between mb-2 px-3 py-2 bg-gray-700 rounded-lg text-sm">
+            <div className="flex items-center space-x-2 min-w-0">
+              <Reply className="w-4 h-4 text-sky-300 flex-shrink-0" />
+              <span className="text-gray-400 flex-shrink-0">
+                Replying to {replyingTo.sender === 'self' ? 'yourself' : replyingTo.senderCert ? displayName(replyingTo.senderCert) : 'Anonymous'}:
+              </span>
+              <span className="text-gray-200 truncate">
+                {replyingTo.type === 'text' ? replyingTo.content : replyingTo.documentInfo?.name || replyingTo.type}
+              </span>
+            </div>
+            <button
+              onClick={() => setReplyingTo(null)}
+              className="text-gray-400 hover:text-white ml-2"
+              title="Cancel reply"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         <div className="flex items-end space-x-2">
           <div className="flex-1 bg-gray-700 rounded-lg">
             <textarea
               value={messageInput}
-              onChange={(e) => setMessageInput(e.target.value)}
+              onChange={(e) => handleInputChange(e.target.value)}
               onKeyDown={handleKeyPress}
               placeholder={isPaired ? "Type a message..." : "Waiting for connection..."}
               className="w-full bg-transparent border-0 p-3 text-white placeholder-gray-400 focus:ring-0 resize-none"
@@ -539,6 +989,36 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
               >
                 <Image className="w-5 h-5" />
               </button>
+              <input
+                type="file"
+                ref={attachmentInputRef}
+                onChange={(e) => handleAttachmentUpload(e, false)}
+                className="hidden"
+                disabled={!isPaired}
+              />
+              <button
+                onClick={() => attachmentInputRef.current?.click()}
+                className={`text-gray-400 hover:text-white transition-colors ${!isPaired && 'opacity-50 cursor-not-allowed'}`}
+                disabled={!isPaired}
+                title="Attach File"
+              >
+                <Paperclip className="w-5 h-5" />
+              </button>
+              <input
+                type="file"
+                ref={signedDocumentInputRef}
+                onChange={(e) => handleAttachmentUpload(e, true)}
+                className="hidden"
+                disabled={!isPaired}
+              />
+              <button
+                onClick={() => signedDocumentInputRef.current?.click()}
+                className={`text-gray-400 hover:text-white transition-colors ${!isPaired && 'opacity-50 cursor-not-allowed'}`}
+                disabled={!isPaired}
+                title="Sign and Send Document"
+              >
+                <FilePen className="w-5 h-5" />
+              </button>
               <button
                 onClick={handleAudioRecording}
                 className={`relative ${
@@ -562,6 +1042,30 @@ const ChatScreen: React.FC<ChatScreenProps> = ({ onLeave }) => {
                   <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full"></span>
                 )}
               </button>
+              <button
+                onClick={() => setViewOnce(!viewOnce)}
+                className={`transition-colors ${viewOnce ? 'text-amber-300' : 'text-gray-400 hover:text-white'} ${!isPaired && 'opacity-50 cursor-not-allowed'}`}
+                disabled={!isPaired}
+                title={viewOnce ? 'Next photo or voice message is view once' : 'Send the next photo or voice message as view once'}
+              >
+                <Flame className="w-5 h-5" />
+              </button>
+              <select
+                value={messageTimer === undefined ? 'default' : String(messageTimer)}
+                onChange={(e) => setMessageTimer(
+                  e.target.value === 'default' ? undefined : e.target.value === 'null' ? null : Number(e.target.value)
+                )}
+                className="bg-gray-700 text-xs text-gray-300 border-0 rounded focus:ring-0"
+                disabled={!isPaired}
+                title="Timer for the next message"
+              >
+                <option value="default">Chat timer</option>
+                {TIMER_OPTIONS.map(option => (
+                  <option key={option.label} value={String(option.value)}>
+                    {option.value === null ? 'Keep' : option.label}
+                  </option>
+                ))}
+              </select>
               <div className="flex-1 text-right">
                 <span className="text-xs text-gray-500">
                   <Shield className="w-3 h-3 inline-block mr-1" />
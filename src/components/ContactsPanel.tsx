@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookUser, Download, Pencil, Trash2, Upload, UserPlus, X } from 'lucide-react';
+import { useContacts } from '../context/useContacts';
+import { RoomMember } from '../types';
+import { ContactBook } from '../utils/contacts';
+import { IdentityKeys } from '../utils/identity';
+import Button from './ui/Button';
+
+interface ContactsPanelProps {
+  members: RoomMember[];
+  selfId?: string;
+  onClose: () => void;
+}
+
+const inputClass =
+  'flex-1 min-w-0 p-1 bg-gray-900/50 rounded border border-gray-600 text-white placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500';
+
+/**
+ * The contacts book: save the people in this room under a nickname, rename
+ * or forget saved contacts, and move the book between devices.
+ */
+const ContactsPanel: React.FC<ContactsPanelProps> = ({ members, selfId, onClose }) => {
+  const { contacts, findContact, keyChangeFor, saveContact, renameContact, removeContact, exportContacts, importContacts } =
+    useContacts();
+  const [fingerprints, setFingerprints] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<string | null>(null); // Member id or contact fingerprint
+  const [nickname, setNickname] = useState('');
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const others = members.filter(member => member.id !== selfId);
+
+  // Fingerprints of the identity keys behind the members' certificates
+  useEffect(() => {
+    let cancelled = false;
+    const peers = members.filter(member => member.id !== selfId);
+    Promise.all(peers.map(async member => {
+      const identityKey = ContactBook.identityKey(member.certificate);
+      return [member.id, identityKey ? await IdentityKeys.fingerprint(identityKey) : ''] as const;
+    })).then(entries => {
+      if (!cancelled) {
+        setFingerprints(Object.fromEntries(entries));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [members, selfId]);
+
+  const startEditing = (key: string, value: string) => {
+    setEditing(key);
+    setNickname(value);
+    setError('');
+  };
+
+  const run = async (action: () => Promise<unknown> | unknown) => {
+    setNotice('');
+    setError('');
+    try {
+      await action();
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportContacts()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cipher-contacts.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    run(async () => {
+      const added = await importContacts(await file.text());
+      setNotice(added === 0 ? 'Every contact in the file was already saved' : `Added ${added} contact${added === 1 ? '' : 's'}`);
+    });
+  };
+
+  const nicknameForm = (key: string, onSave: () => void) =>
+    editing === key && (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSave();
+        }}
+        className="flex items-center space-x-2 mt-1"
+      >
+        <input
+          value={nickname}
+          onChange={(e) => setNickname(e.target.value)}
+          placeholder="Nickname"
+          className={inputClass}
+          autoFocus
+        />
+        <Button type="submit" size="sm" disabled={!nickname.trim()}>
+          Save
+        </Button>
+        <button type="button" onClick={() => setEditing(null)} className="text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </form>
+    );
+
+  return (
+    <div className="absolute top-16 left-4 right-4 z-10 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-xl max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <BookUser className="w-4 h-4 mr-2" />
+          Contacts
+        </h3>
+        <div className="flex items-center space-x-3">
+          <input type="file" accept="application/json,.json" ref={importInputRef} onChange={handleImport} className="hidden" />
+          <button onClick={() => importInputRef.current?.click()} className="text-gray-400 hover:text-white" title="Import">
+            <Upload className="w-4 h-4" />
+          </button>
+          <button onClick={handleExport} className="text-gray-400 hover:text-white" title="Export" disabled={contacts.length === 0}>
+            <Download className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {others.length > 0 && (
+        <div className="mb-3 text-sm">
+          <p className="text-gray-400 mb-1">In this room</p>
+          <ul className="space-y-2">
+            {others.map(member => {
+              const contact = findContact(member.certificate);
+              const previous = keyChangeFor(member.certificate);
+              const name = ContactBook.subjectName(member.certificate);
+              return (
+                <li key={member.id}>
+                  <div className="flex items-center justify-between">
+                    <span>
+                      {contact ? contact.nickname : name}
+                      {contact && contact.nickname !== name && <span className="text-gray-400"> ({name})</span>}
+                    </span>
+                    {contact ? (
+                      <span className="text-xs text-green-300">Saved</span>
+                    ) : (
+                      fingerprints[member.id] && editing !== member.id && (
+                        <button
+                          onClick={() => startEditing(member.id, previous?.nickname || name)}
+                          className="flex items-center text-xs text-indigo-300 hover:text-indigo-200"
+                        >
+                          <UserPlus className="w-3 h-3 mr-1" />
+                          {previous ? 'Replace contact' : 'Save'}
+                        </button>
+                      )
+                    )}
+                  </div>
+                  <p className="font-mono text-xs text-gray-400 break-all">
+                    {fingerprints[member.id] || 'Identity key not known'}
+                  </p>
+                  {nicknameForm(member.id, () => run(() => saveContact(member.certificate, nickname, previous || undefined)))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="text-sm">
+        <p className="text-gray-400 mb-1">Saved ({contacts.length})</p>
+        {contacts.length === 0 ? (
+          <p className="text-xs text-gray-500">Nobody saved yet</p>
+        ) : (
+          <ul className="space-y-2">
+            {contacts.map(contact => (
+              <li key={contact.fingerprint}>
+                <div className="flex items-center justify-between">
+                  <span>
+                    {contact.nickname}
+                    {contact.nickname !== contact.name && <span className="text-gray-400"> ({contact.name})</span>}
+                  </span>
+                  <span className="flex items-center space-x-2">
+                    <button
+                      onClick={() => startEditing(contact.fingerprint, contact.nickname)}
+                      className="text-gray-400 hover:text-white"
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => run(() => removeContact(contact.fingerprint))}
+                      className="text-gray-400 hover:text-red-400"
+                      title="Forget"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </span>
+                </div>
+                <p className="font-mono text-xs text-gray-400 break-all">{contact.fingerprint}</p>
+                {nicknameForm(contact.fingerprint, () => run(() => renameContact(contact.fingerprint, nickname)))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {notice && <p className="mt-3 text-xs text-green-300">{notice}</p>}
+      {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ContactsPanel;
@@ -1,15 +1,28 @@
 import React, { useState, useRef } from 'react';
-import { FileText, Upload, Download, Shield, CheckCircle, XCircle, Key, Info, AlertCircle } from 'lucide-react';
+import { FileText, Upload, Shield, CheckCircle, XCircle, Key, Info, AlertCircle, AlertTriangle } from 'lucide-react';
 import Button from './ui/Button';
-import { useCrypto } from '../context/CryptoContext';
+import { useContacts } from '../context/useContacts';
+import { useCrypto } from '../context/useCrypto';
+import { ContactBook } from '../utils/contacts';
 import { DigitalSigner } from '../utils/signing';
 import { DocumentSignature } from '../types';
 
+// Outcome of checking one signature in a bundle
+interface SignatureCheck {
+  signature: DocumentSignature;
+  valid: boolean; // Signature matches the document and the certificate is unexpired
+  trusted: boolean; // Certificate issued by an authority in the trust store
+}
+
+// Valid signatures from a signer we do not trust are not a success
+type VerificationOutcome = 'verified' | 'untrusted' | 'failed';
+
 const DocumentSigner: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [signatureFile, setSignatureFile] = useState<File | null>(null);
   const [documentSignature, setDocumentSignature] = useState<DocumentSignature | null>(null);
-  const [verificationResult, setVerificationResult] = useState<boolean | null>(null);
+  const [verificationResult, setVerificationResult] = useState<VerificationOutcome | null>(null);
+  const [signatureChecks, setSignatureChecks] = useState<SignatureCheck[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string>('');
   const [showMechanism, setShowMechanism] = useState(false);
@@ -17,6 +30,11 @@ const DocumentSigner: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const signatureInputRef = useRef<HTMLInputElement>(null);
   const crypto = useCrypto();
+  const { displayName } = useContacts();
+
+  // A contact's name only vouches for a certificate its trusted issuer signed
+  const signerName = (check: SignatureCheck) =>
+    check.trusted ? displayName(check.signature.certificate) : check.signature.certificate.id;
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -24,6 +42,7 @@ const DocumentSigner: React.FC = () => {
       setSelectedFile(file);
       setError('');
       setVerificationResult(null);
+      setSignatureChecks([]);
       setDocumentSignature(null);
     }
   };
@@ -93,40 +112,42 @@ const DocumentSigner: React.FC = () => {
     setError('');
 
     try {
-      // Parse signature file
-      const parsedSignature = await DigitalSigner.parseSignatureFile(signatureFile);
-      if (!parsedSignature) {
+      // Parse signature file: a single signature or a bundle of several
+      const bundle = await DigitalSigner.parseSignatureBundle(signatureFile);
+      if (!bundle) {
         setError('Invalid signature file format');
         setIsProcessing(false);
         return;
       }
 
-      // Verify certificate
-      const isCertValid = await crypto.verifyCertificate(parsedSignature.certificate);
-      if (!isCertValid) {
-        setError('Invalid or expired certificate');
-        setVerificationResult(false);
-        setIsProcessing(false);
-        return;
-      }
-
-      // Import signer's public key
-      const signerPublicKey = await crypto.importPublicKey(parsedSignature.certificate.publicKey);
-
-      // Verify document signature
-      const isValid = await DigitalSigner.verifyDocumentSignature(
-        selectedFile,
-        parsedSignature,
-        signerPublicKey
+      // Hash the document once and check every signature against it, with
+      // each certificate as it stood when that signature was made.
+      // A certificate whose issuer is not in the trust store is reported
+      // rather than treated as a failure, but never as a success.
+      const documentHash = await DigitalSigner.hashDocument(selectedFile);
+      const checks = await Promise.all(bundle.signatures.map(async (signature): Promise<SignatureCheck> => {
+        const signerPublicKey = await crypto.importPublicKey(signature.certificate.publicKey);
+        const isValid = await DigitalSigner.verifyDocumentHash(documentHash, signature, signerPublicKey);
+        const { issuedAt, expiresAt } = signature.certificate;
+        return {
+          signature,
+          valid: isValid && issuedAt <= signature.timestamp && signature.timestamp < expiresAt,
+          trusted: await crypto.verifyCertificate(signature.certificate, signature.timestamp)
+        };
+      }));
+
+      setSignatureChecks(checks);
+      setVerificationResult(
+        !checks.every(check => check.valid)
+          ? 'failed'
+          : checks.every(check => check.trusted) ? 'verified' : 'untrusted'
       );
-
-      setVerificationResult(isValid);
-      setDocumentSignature(parsedSignature);
+      setDocumentSignature(bundle.signatures[0]);
 
     } catch (err) {
       console.error('Document verification failed:', err);
       setError('Failed to verify document. Please check your files and try again.');
-      setVerificationResult(false);
+      setVerificationResult('failed');
     } finally {
       setIsProcessing(false);
     }
@@ -264,7 +285,7 @@ const DocumentSigner: React.FC = () => {
               <div className="flex items-center space-x-3">
                 <Key className="w-5 h-5 text-green-400" />
                 <div>
-                  <p className="font-medium text-white">Certificate: {crypto.certificate.subject.split('-')[0]}</p>
+                  <p className="font-medium text-white">Certificate: {ContactBook.subjectName(crypto.certificate)}</p>
                   <p className="text-sm text-gray-400">
                     Session Started: {formatDate(crypto.certificate.issuedAt)} • 
                     Valid Until: {formatDate(crypto.certificate.expiresAt)}
@@ -324,7 +345,7 @@ const DocumentSigner: React.FC = () => {
               className="w-full"
             >
               <Upload className="w-4 h-4 mr-2" />
-              Choose Signature File (.sig)
+              Choose Signature File or Bundle (.sig)
             </Button>
           </div>
 
@@ -355,27 +376,69 @@ const DocumentSigner: React.FC = () => {
           {/* Verification Result */}
           {verificationResult !== null && (
             <div className={`border rounded-lg p-4 ${
-              verificationResult 
-                ? 'bg-green-900/20 border-green-700' 
-                : 'bg-red-900/20 border-red-700'
+              verificationResult === 'verified'
+                ? 'bg-green-900/20 border-green-700'
+                : verificationResult === 'untrusted'
+                  ? 'bg-yellow-900/20 border-yellow-700'
+                  : 'bg-red-900/20 border-red-700'
             }`}>
               <div className="flex items-center space-x-2">
-                {verificationResult ? (
+                {verificationResult === 'verified' ? (
                   <CheckCircle className="w-5 h-5 text-green-400" />
+                ) : verificationResult === 'untrusted' ? (
+                  <AlertTriangle className="w-5 h-5 text-yellow-400" />
                 ) : (
                   <XCircle className="w-5 h-5 text-red-400" />
                 )}
                 <span className={`font-medium ${
-                  verificationResult ? 'text-green-400' : 'text-red-400'
+                  verificationResult === 'verified'
+                    ? 'text-green-400'
+                    : verificationResult === 'untrusted' ? 'text-yellow-400' : 'text-red-400'
                 }`}>
-                  {verificationResult ? 'Document verification successful!' : 'Document verification failed!'}
+                  {verificationResult === 'verified'
+                    ? 'Document verification successful!'
+                    : verificationResult === 'untrusted'
+                      ? 'Signature valid, but the signer is not trusted'
+                      : 'Document verification failed!'}
                 </span>
               </div>
-              
-              {documentSignature && (
+
+              {signatureChecks.length > 1 && (
+                <div className="mt-3 space-y-2 text-sm">
+                  {signatureChecks.map((check, index) => (
+                    <div key={`${check.signature.signature}-${index}`} className="flex items-start space-x-2">
+                      {check.valid ? (
+                        <CheckCircle className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                      )}
+                      <div className="text-gray-300">
+                        <p>
+                          <strong>{index === 0 ? 'Signer' : 'Countersigner'}:</strong>{' '}
+                          {signerName(check)} • {formatDate(check.signature.timestamp)}
+                        </p>
+                        {!check.trusted && (
+                          <p className="flex items-center text-xs text-yellow-300">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            Certificate from an issuer you do not trust - compare it with the signer's chat identity
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-gray-300">
+                    <strong>Document Hash:</strong>
+                    <span className="font-mono text-xs ml-2 break-all">
+                      {signatureChecks[0].signature.documentHash}
+                    </span>
+                  </p>
+                </div>
+              )}
+
+              {signatureChecks.length === 1 && documentSignature && (
                 <div className="mt-3 space-y-2 text-sm">
                   <p className="text-gray-300">
-                    <strong>Signer:</strong> {documentSignature.certificate.subject.split('-')[0]}
+                    <strong>Signer:</strong> {signerName(signatureChecks[0])}
                   </p>
                   <p className="text-gray-300">
                     <strong>Signed:</strong> {formatDate(documentSignature.timestamp)}
@@ -386,10 +449,14 @@ const DocumentSigner: React.FC = () => {
                       {documentSignature.documentHash}
                     </span>
                   </p>
-                  {verificationResult && (
-                    <div className="bg-green-800/30 rounded p-2 mt-2">
-                      <p className="text-green-300 text-xs">
-                        ✓ Certificate is valid and not expired<br/>
+                  {verificationResult !== 'failed' && (
+                    <div className={`rounded p-2 mt-2 ${
+                      verificationResult === 'verified' ? 'bg-green-800/30' : 'bg-yellow-800/30'
+                    }`}>
+                      <p className={`text-xs ${verificationResult === 'verified' ? 'text-green-300' : 'text-yellow-300'}`}>
+                        {verificationResult === 'verified'
+                          ? '✓ Certificate is valid and not expired'
+                          : '⚠ Certificate is not expired, but its issuer is not trusted'}<br/>
                         ✓ Document integrity verified<br/>
                         ✓ Digital signature is authentic
                       </p>
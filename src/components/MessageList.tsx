@@ -1,31 +1,330 @@
-import React from 'react';
-import { Message } from '../types';
-import { Lock, AlertTriangle, CheckCircle, XCircle, Shield, User } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { FileTransferProgress, Message, QuoteState, RoomMember } from '../types';
+import { useContacts } from '../context/useContacts';
+import { FileTransfer } from '../utils/fileTransfer';
+import { ReplyQuotes } from '../utils/replyQuote';
+import AttachmentCard from './AttachmentCard';
+import { Lock, AlertTriangle, Shield, User, Clock, Check, CheckCheck, AlertCircle, RotateCw, Pencil, Trash2, X, Reply, SmilePlus, Timer, Flame } from 'lucide-react';
 
 interface MessageListProps {
   messages: Message[];
+  transfers?: Record<string, FileTransferProgress>; // By transfer id
+  onRetry?: (id: string) => void; // Resend a failed message
+  onResumeTransfer?: (transferId: string) => void;
+  members?: RoomMember[];
+  selfId?: string;
+  onCountersign?: (messageId: string, sign: boolean) => void;
+  onEdit?: (id: string, content: string) => void; // Edit one of our text messages for everyone
+  onDelete?: (id: string) => void; // Delete one of our messages for everyone
+  onReply?: (message: Message) => void;
+  onReact?: (messageId: string, emoji: string) => void; // Add our reaction, or take it back
+  onViewed?: (id: string) => void; // A view-once message was opened and closed
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages }) => {
+const TRANSFER_LABELS: Record<FileTransferProgress['status'], string> = {
+  preparing: 'Encrypting',
+  waiting: 'Waiting for recipient',
+  transferring: 'Transferring',
+  paused: 'Interrupted',
+  complete: 'Complete',
+  failed: 'Failed'
+};
+
+// Reactions offered in the picker
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Shown on a quote that no longer matches the original as we have it
+const QUOTE_NOTES: Record<QuoteState, string | null> = {
+  current: null,
+  edited: 'Original edited since',
+  deleted: 'Original deleted',
+  missing: 'Original not available',
+  mismatch: 'Quote does not match the original'
+};
+
+const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  transfers = {},
+  onRetry,
+  onResumeTransfer,
+  members,
+  selfId,
+  onCountersign,
+  onEdit,
+  onDelete,
+  onReply,
+  onReact,
+  onViewed
+}) => {
+  const { displayName } = useContacts();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [pickerId, setPickerId] = useState<string | null>(null);
+  const [openedId, setOpenedId] = useState<string | null>(null);
+  const highlightTimerRef = useRef<number>();
+
+  useEffect(() => {
+    return () => window.clearTimeout(highlightTimerRef.current);
+  }, []);
+
+  // Scroll to the message a reply answers and flash it
+  const jumpTo = (id: string) => {
+    document.getElementById(`message-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(id);
+    window.clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = window.setTimeout(() => setHighlightedId(null), 1500);
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingId(message.id);
+    setDraft(message.content);
+  };
+
+  const saveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && draft.trim()) {
+      onEdit?.(editingId, draft);
+    }
+    setEditingId(null);
+  };
+
   // Format timestamp
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
   
-  // Get sender name from certificate or fallback
+  // Get sender name from the contacts book, their certificate or fallback
   const getSenderName = (message: Message): string => {
     if (message.sender === 'self') {
       return 'You';
     }
     
     if (message.senderCert?.subject) {
-      return message.senderCert.subject.split('-')[0];
+      return displayName(message.senderCert);
     }
     
     return 'Anonymous';
   };
   
+  // Delivery status of our own messages
+  const renderStatus = (message: Message) => {
+    switch (message.status) {
+      case 'sending':
+        return <Clock className="w-3 h-3" aria-label="Sending" />;
+      case 'sent':
+        return <Check className="w-3 h-3" aria-label="Sent" />;
+      case 'delivered':
+        return <CheckCheck className="w-3 h-3" aria-label="Delivered" />;
+      case 'read':
+        return <CheckCheck className="w-3 h-3 text-sky-300" aria-label="Read" />;
+      case 'failed':
+        return (
+          <button
+            onClick={() => onRetry?.(message.id)}
+            className="flex items-center space-x-1 text-red-300 hover:text-red-200"
+            title="Not delivered - click to retry"
+          >
+            <AlertCircle className="w-3 h-3" />
+            <span className="text-xs">Failed</span>
+          </button>
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Progress of a file still being sent or received
+  const renderTransfer = (message: Message) => {
+    if (!message.transferId || message.deleted) {
+      return null;
+    }
+    const transfer = transfers[message.transferId];
+    if (!transfer) {
+      return <p className="text-xs opacity-75 mt-1">File unavailable</p>;
+    }
+    if (transfer.status === 'complete' && message.content) {
+      return null;
+    }
+
+    const percent = transfer.size > 0 ? Math.round((transfer.bytesTransferred / transfer.size) * 100) : 0;
+    return (
+      <div className="mt-1 min-w-[200px]">
+        <div className="flex items-center justify-between text-xs opacity-75">
+          <span className="truncate mr-2">{transfer.name}</span>
+          <span className="whitespace-nowrap">
+            {FileTransfer.formatSize(transfer.bytesTransferred)} / {FileTransfer.formatSize(transfer.size)}
+          </span>
+        </div>
+        <div className="h-1.5 bg-gray-800 rounded-full mt-1 overflow-hidden">
+          <div
+            className={`h-full ${transfer.status === 'failed' ? 'bg-red-400' : 'bg-green-400'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        <div className="flex items-center justify-between text-xs mt-1">
+          <span className="opacity-75">{transfer.error || TRANSFER_LABELS[transfer.status]}</span>
+          {transfer.status === 'paused' && (
+            <button
+              onClick={() => onResumeTransfer?.(transfer.transferId)}
+              className="flex items-center space-x-1 text-yellow-300 hover:text-yellow-200"
+              title="Resume from the last received chunk"
+            >
+              <RotateCw className="w-3 h-3" />
+              <span>Resume</span>
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Quoted preview of the message a reply answers
+  const renderQuote = (message: Message) => {
+    const quote = message.replyTo;
+    if (!quote || message.deleted) {
+      return null;
+    }
+    const original = messages.find(current => current.id === quote.messageId);
+    const state = ReplyQuotes.check(quote, original);
+    const note = QUOTE_NOTES[state];
+    const authorCert = members?.find(member => member.id === quote.senderId)?.certificate || original?.senderCert;
+    const author = quote.senderId === selfId ? 'You' : authorCert ? displayName(authorCert) : 'Unknown';
+
+    return (
+      <button
+        onClick={() => original && jumpTo(original.id)}
+        disabled={!original}
+        className="block w-full text-left mb-2 pl-2 border-l-2 border-sky-300 bg-black bg-opacity-20 rounded-r px-2 py-1 text-xs"
+        title={original ? 'Go to the original message' : undefined}
+      >
+        <span className="font-medium">{author}</span>
+        <p className="opacity-75 truncate">{quote.excerpt}</p>
+        {note && (
+          <p className={`italic ${state === 'mismatch' ? 'text-yellow-300' : 'opacity-60'}`}>{note}</p>
+        )}
+      </button>
+    );
+  };
+
+  // Replies to each message, oldest first
+  const replies = messages.reduce((threads, message) => {
+    if (message.replyTo && !message.deleted) {
+      threads.set(message.replyTo.messageId, [...(threads.get(message.replyTo.messageId) || []), message.id]);
+    }
+    return threads;
+  }, new Map<string, string[]>());
+
+  const memberName = (id: string): string => {
+    const memberCert = members?.find(member => member.id === id)?.certificate;
+    return id === selfId ? 'You' : memberCert ? displayName(memberCert) : 'Former member';
+  };
+
+  // Reactions under a message, with who reacted, and the emoji picker
+  const renderReactions = (message: Message) => {
+    const reactions = Object.entries(message.reactions || {});
+    if (message.deleted || (reactions.length === 0 && pickerId !== message.id)) {
+      return null;
+    }
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {reactions.map(([emoji, memberIds]) => (
+          <button
+            key={emoji}
+            onClick={() => onReact?.(message.id, emoji)}
+            className={`px-1.5 py-0.5 rounded-full text-xs bg-black bg-opacity-20 ${
+              selfId && memberIds.includes(selfId) ? 'ring-1 ring-sky-300' : ''
+            }`}
+            title={memberIds.map(memberName).join(', ')}
+          >
+            {emoji} {memberIds.length}
+          </button>
+        ))}
+        {pickerId === message.id && (
+          <div className="flex items-center bg-gray-800 rounded-full px-1">
+            {REACTION_EMOJIS.map(emoji => (
+              <button
+                key={emoji}
+                onClick={() => {
+                  onReact?.(message.id, emoji);
+                  setPickerId(null);
+                }}
+                className="px-1 py-0.5 hover:scale-125 transition-transform"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // View-once media is shown until the recipient closes it, then wiped
+  const renderViewOnce = (message: Message) => {
+    const label = message.type === 'image' ? 'photo' : 'voice message';
+    if (openedId === message.id) {
+      return (
+        <button
+          onClick={() => {
+            setOpenedId(null);
+            onViewed?.(message.id);
+          }}
+          className="flex items-center space-x-1 mb-1 text-xs text-amber-300 hover:text-amber-200"
+        >
+          <X className="w-3 h-3" />
+          <span>Close - the {label} is then wiped</span>
+        </button>
+      );
+    }
+    if (message.viewed) {
+      return (
+        <p className="flex items-center space-x-1 italic opacity-75">
+          <Flame className="w-3 h-3" />
+          <span>View-once {label} opened</span>
+        </p>
+      );
+    }
+    if (message.sender === 'self' || !message.content) {
+      return (
+        <p className="flex items-center space-x-1 opacity-75">
+          <Flame className="w-3 h-3" />
+          <span>
+            View-once {label}
+            {message.viewedBy?.length ? ` - opened by ${message.viewedBy.map(memberName).join(', ')}` : ''}
+          </span>
+        </p>
+      );
+    }
+    return (
+      <button
+        onClick={() => setOpenedId(message.id)}
+        className="flex items-center space-x-1 text-amber-300 hover:text-amber-200"
+      >
+        <Flame className="w-4 h-4" />
+        <span>Open view-once {label}</span>
+      </button>
+    );
+  };
+
+  const renderReplyCount = (message: Message) => {
+    const thread = replies.get(message.id);
+    if (!thread) {
+      return null;
+    }
+    return (
+      <button
+        onClick={() => jumpTo(thread[thread.length - 1])}
+        className="ml-2 underline hover:opacity-100"
+        title="Go to the latest reply"
+      >
+        {thread.length} {thread.length === 1 ? 'reply' : 'replies'}
+      </button>
+    );
+  };
+
   // Group messages by day
   const groupedMessages = messages.reduce<{ date: string; messages: Message[] }[]>((groups, message) => {
     const date = new Date(message.timestamp).toLocaleDateString();
@@ -55,10 +354,13 @@ const MessageList: React.FC<MessageListProps> = ({ messages }) => {
             {group.messages.map((message) => (
               <div
                 key={message.id}
+                id={`message-${message.id}`}
                 className={`flex ${message.sender === 'self' ? 'justify-end' : 'justify-start'}`}
               >
                 <div
-                  className={`max-w-[80%] rounded-lg ${
+                  className={`max-w-[80%] rounded-lg transition-shadow ${
+                    highlightedId === message.id ? 'ring-2 ring-sky-300' : ''
+                  } ${
                     message.sender === 'self'
                       ? 'bg-indigo-600 text-white rounded-br-none'
                       : 'bg-gray-700 text-gray-100 rounded-bl-none'
@@ -74,12 +376,65 @@ const MessageList: React.FC<MessageListProps> = ({ messages }) => {
                     {message.verified && <Shield className="w-3 h-3 text-green-400" />}
                   </div>
 
+                  {/* Gaps in the sender's sequence */}
+                  {(message.missedBefore || message.late) && (
+                    <div className="px-3 pb-1 text-xs text-yellow-300 flex items-center space-x-1">
+                      <AlertTriangle className="w-3 h-3" />
+                      <span>
+                        {message.missedBefore
+                          ? `${message.missedBefore} earlier message${message.missedBefore === 1 ? '' : 's'} not received`
+                          : 'Arrived out of order'}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Message content */}
                   <div className="px-3 pb-3">
                     {/* Message content based on type */}
-                    {message.type === 'text' && <p>{message.content}</p>}
+                    {renderQuote(message)}
+
+                    {message.deleted && (
+                      <p className="flex items-center space-x-1 italic opacity-75">
+                        <Trash2 className="w-3 h-3" />
+                        <span>This message was deleted</span>
+                      </p>
+                    )}
+
+                    {message.type === 'text' && !message.deleted && (
+                      editingId === message.id ? (
+                        <form onSubmit={saveEdit} className="flex items-center space-x-2">
+                          <input
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            className="flex-1 min-w-0 bg-indigo-800 rounded px-2 py-1 text-white focus:outline-none"
+                            autoFocus
+                          />
+                          <button type="submit" className="hover:text-green-300" title="Save">
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button type="button" onClick={() => setEditingId(null)} className="hover:text-red-300" title="Cancel">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </form>
+                      ) : (
+                        <p>{message.content}</p>
+                      )
+                    )}
+
+                    {historyId === message.id && message.revisions && (
+                      <div className="mt-2 pl-2 border-l-2 border-gray-400 border-opacity-50 text-xs space-y-1">
+                        {message.revisions.map((revision, index) => (
+                          <p key={index} className="opacity-75">
+                            <span className="mr-2">{formatTime(revision.timestamp)}</span>
+                            {revision.content}
+                          </p>
+                        ))}
+                      </div>
+                    )}
                     
-                    {message.type === 'image' && (
+                    {message.viewOnce && !message.deleted && renderViewOnce(message)}
+
+                    {message.type === 'image' && message.content && (!message.viewOnce || openedId === message.id) && (
                       <div className="my-1">
                         <img
                           src={message.content}
@@ -89,7 +444,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages }) => {
                       </div>
                     )}
                     
-                    {message.type === 'audio' && (
+                    {message.type === 'audio' && !message.deleted && (!message.viewOnce || openedId === message.id) && (
                       <div className="my-1">
                         <audio controls className="w-full max-w-[240px]">
                           <source src={message.content} type="audio/webm" />
@@ -100,23 +455,78 @@ const MessageList: React.FC<MessageListProps> = ({ messages }) => {
                       </div>
                     )}
 
-                    {message.type === 'document' && (
-                      <div className="my-1 p-3 bg-gray-600 rounded-lg">
-                        <div className="flex items-center space-x-2">
-                          <Shield className="w-5 h-5 text-blue-400" />
-                          <div>
-                            <p className="font-medium">Signed Document</p>
-                            <p className="text-sm opacity-75">Click to download</p>
-                          </div>
-                        </div>
-                      </div>
+                    {message.type === 'document' && message.documentInfo && (
+                      <AttachmentCard
+                        info={message.documentInfo}
+                        url={message.content}
+                        fromPeer={message.sender === 'peer'}
+                        members={members}
+                        selfId={selfId}
+                        onCountersign={onCountersign && (sign => onCountersign(message.id, sign))}
+                      />
                     )}
                     
+                    {renderTransfer(message)}
+
+                    {renderReactions(message)}
+
                     {/* Message footer with time */}
                     <div className="flex items-center justify-between mt-2">
                       <span className="text-xs opacity-70">
                         {formatTime(message.timestamp)}
+                        {message.expiresAt && (
+                          <span className="ml-2" title={`Disappears at ${new Date(message.expiresAt).toLocaleString()}`}>
+                            <Timer className="w-3 h-3 inline-block" />
+                          </span>
+                        )}
+                        {message.editedAt && !message.deleted && (
+                          <button
+                            onClick={() => setHistoryId(historyId === message.id ? null : message.id)}
+                            className="ml-2 underline hover:opacity-100"
+                            title="Show earlier versions"
+                          >
+                            edited
+                          </button>
+                        )}
+                        {renderReplyCount(message)}
+                        {onReact && !message.deleted && (
+                          <button
+                            onClick={() => setPickerId(pickerId === message.id ? null : message.id)}
+                            className="ml-2 align-middle hover:opacity-100"
+                            title="React"
+                          >
+                            <SmilePlus className="w-3 h-3 inline-block" />
+                          </button>
+                        )}
+                        {onReply && !message.deleted && (
+                          <button
+                            onClick={() => onReply(message)}
+                            className="ml-2 align-middle hover:opacity-100"
+                            title="Reply"
+                          >
+                            <Reply className="w-3 h-3 inline-block" />
+                          </button>
+                        )}
                       </span>
+                      {message.sender === 'self' && (
+                        <span className="ml-2 flex items-center space-x-2 opacity-80">
+                          {!message.deleted && editingId !== message.id && (
+                            <>
+                              {message.type === 'text' && onEdit && (
+                                <button onClick={() => startEditing(message)} className="hover:text-white" title="Edit">
+                                  <Pencil className="w-3 h-3" />
+                                </button>
+                              )}
+                              {onDelete && (
+                                <button onClick={() => onDelete(message.id)} className="hover:text-red-300" title="Delete for everyone">
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              )}
+                            </>
+                          )}
+                          {renderStatus(message)}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1,16 +1,34 @@
 import React, { useState, useEffect } from 'react';
-import { KeyRound, Copy, ArrowRight, Shield, Award, Key, User } from 'lucide-react';
+import { Copy, ArrowRight, Shield, ShieldAlert, Award, Key, User, UserCheck, UserX, Users } from 'lucide-react';
 import Button from './ui/Button';
-import { useChat } from '../context/ChatContext';
-import { useCrypto } from '../context/CryptoContext';
+import SignalExchange from './SignalExchange';
+import { MAX_GROUP_MEMBERS } from '../context/ChatContext';
+import { useChat } from '../context/useChat';
+import { useContacts } from '../context/useContacts';
+import { useCrypto } from '../context/useCrypto';
+import { ContactBook } from '../utils/contacts';
 
 interface PairingScreenProps {
   onPaired: () => void;
 }
 
 const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
-  const { generateCode, joinChat, pairingCode, isPaired } = useChat();
+  const {
+    generateCode,
+    joinChat,
+    pairingCode,
+    shareCode,
+    isPaired,
+    pairingStatus,
+    incomingPairingRequest,
+    respondToPairing,
+    manualSignaling,
+    localSignal,
+    submitRemoteSignal,
+    isGroup
+  } = useChat();
   const { certificate, isInitializing, generateCertificate } = useCrypto();
+  const { displayName, keyChangeFor } = useContacts();
   const [inputCode, setInputCode] = useState('');
   const [username, setUsername] = useState('');
   const [showUsernameInput, setShowUsernameInput] = useState(true);
@@ -18,6 +36,9 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState('');
   const [copied, setCopied] = useState(false);
+  const [isResponding, setIsResponding] = useState(false);
+  const [answerAccepted, setAnswerAccepted] = useState(false);
+  const [groupRoom, setGroupRoom] = useState(false);
 
   // Check if we need to show username input
   useEffect(() => {
@@ -37,6 +58,18 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
     }
   }, [isPaired, onPaired]);
 
+  // Tell the joiner when the room creator turned them down
+  useEffect(() => {
+    if (pairingStatus === 'rejected') {
+      setError('The room creator declined your request to join, or the code was wrong.');
+    }
+  }, [pairingStatus]);
+
+  // A new offer means the previous answer no longer applies
+  useEffect(() => {
+    setAnswerAccepted(false);
+  }, [localSignal]);
+
   const handleSetUsername = async () => {
     if (!username.trim()) {
       setError('Please enter a valid username');
@@ -76,8 +109,8 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
     setIsGenerating(true);
     setError('');
     try {
-      await generateCode();
-    } catch (err) {
+      await generateCode(groupRoom);
+    } catch {
       setError('Failed to generate code. Please try again.');
     } finally {
       setIsGenerating(false);
@@ -109,17 +142,47 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
       } else {
         setError('Invalid code or room not found. Make sure someone has created the room first.');
       }
-    } catch (err) {
+    } catch {
       setError('Failed to join chat. Please try again.');
     } finally {
       setIsJoining(false);
     }
   };
 
+  const handlePairingResponse = async (accept: boolean) => {
+    setIsResponding(true);
+    setError('');
+    try {
+      await respondToPairing(accept);
+    } catch (err) {
+      console.error('Pairing response failed:', err);
+      setError('Failed to answer the join request. Please try again.');
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  // WebRTC mode: the creator pastes the joiner's answer
+  const handleAnswer = async (text: string) => {
+    await submitRemoteSignal(text);
+    setAnswerAccepted(true);
+  };
+
+  // WebRTC mode: the joiner pastes the creator's offer instead of a code
+  const handleOffer = async (text: string) => {
+    if (!certificate) {
+      throw new Error('Digital certificate not ready. Please wait or refresh the page.');
+    }
+    setError('');
+    if (!(await submitRemoteSignal(text))) {
+      throw new Error('Could not join the room in this offer.');
+    }
+  };
+
   const copyToClipboard = async () => {
-    if (pairingCode) {
+    if (shareCode) {
       try {
-        await navigator.clipboard.writeText(pairingCode);
+        await navigator.clipboard.writeText(shareCode);
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
       } catch (err) {
@@ -197,7 +260,7 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
               <span className="text-green-400 font-medium">Digital Identity Ready</span>
             </div>
             <div className="text-sm text-gray-300 space-y-1">
-              <p><strong>Certificate:</strong> {certificate.subject.split('-')[0]}</p>
+              <p><strong>Certificate:</strong> {ContactBook.subjectName(certificate)}</p>
               <p><strong>Expires:</strong> {formatDate(certificate.expiresAt)}</p>
             </div>
           </div>
@@ -241,12 +304,79 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
         {!showUsernameInput && (
           <>
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 shadow-xl border border-gray-700">
-              {pairingCode ? (
+              {pairingStatus === 'requested' ? (
+                <div className="text-center">
+                  <h2 className="text-xl font-semibold mb-4">Request Sent</h2>
+                  <div className="bg-gray-900/50 p-4 rounded-lg mb-4">
+                    <span className="text-3xl font-mono tracking-wider text-indigo-300">
+                      {shareCode}
+                    </span>
+                  </div>
+                  {manualSignaling && localSignal && (
+                    <div className="mb-4">
+                      <SignalExchange
+                        outgoing={{
+                          title: 'Connection Answer',
+                          hint: 'Give this signed answer back to the room creator.',
+                          text: localSignal,
+                          fileName: `cipher-answer-${pairingCode}.txt`
+                        }}
+                      />
+                    </div>
+                  )}
+                  <p className="text-sm text-gray-400">
+                    Your signed join request was sent. Waiting for the room creator to approve it...
+                  </p>
+                </div>
+              ) : pairingStatus === 'approval-needed' && incomingPairingRequest ? (
+                <div className="text-center">
+                  <h2 className="text-xl font-semibold mb-4">Join Request</h2>
+                  <div className="bg-gray-900/50 p-4 rounded-lg mb-4 space-y-2">
+                    <div className="flex items-center justify-center space-x-2">
+                      <User className="w-5 h-5 text-indigo-300" />
+                      <span className="text-lg font-medium text-white">
+                        {displayName(incomingPairingRequest.certificate)}
+                      </span>
+                    </div>
+                    {keyChangeFor(incomingPairingRequest.certificate) && (
+                      <p className="flex items-center justify-center text-sm text-red-300">
+                        <ShieldAlert className="w-4 h-4 mr-1" />
+                        Not the identity key saved for your contact {keyChangeFor(incomingPairingRequest.certificate)!.nickname}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 font-mono break-all">
+                      Key: {incomingPairingRequest.certificate.publicKey.slice(0, 32)}...
+                    </p>
+                  </div>
+                  <p className="text-sm text-gray-400 mb-4">
+                    This person signed a request to join your room. Only accept if you expected them.
+                  </p>
+                  <div className="flex space-x-3">
+                    <Button
+                      onClick={() => handlePairingResponse(false)}
+                      variant="secondary"
+                      className="flex-1"
+                      disabled={isResponding}
+                    >
+                      <UserX className="mr-2 w-5 h-5" />
+                      Reject
+                    </Button>
+                    <Button
+                      onClick={() => handlePairingResponse(true)}
+                      isLoading={isResponding}
+                      className="flex-1"
+                    >
+                      <UserCheck className="mr-2 w-5 h-5" />
+                      Accept
+                    </Button>
+                  </div>
+                </div>
+              ) : pairingCode ? (
                 <div className="text-center">
                   <h2 className="text-xl font-semibold mb-4">Your Secure Code</h2>
                   <div className="bg-gray-900/50 p-4 rounded-lg mb-4 flex items-center justify-center space-x-3">
                     <span className="text-3xl font-mono tracking-wider text-green-400">
-                      {pairingCode}
+                      {shareCode}
                     </span>
                     <button
                       onClick={copyToClipboard}
@@ -258,7 +388,9 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
                     </button>
                   </div>
                   <p className="text-sm text-gray-400 mb-4">
-                    Share this code with someone to start a secure, signed conversation
+                    {isGroup
+                      ? `Share this code with the people you want in the group (up to ${MAX_GROUP_MEMBERS})`
+                      : 'Share this code with someone to start a secure, signed conversation'}
                   </p>
                   <div className="bg-indigo-900/30 border border-indigo-700 rounded-lg p-3 mb-4">
                     <div className="flex items-center space-x-2 text-sm text-indigo-300">
@@ -266,6 +398,30 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
                       <span>Messages will be digitally signed with your certificate</span>
                     </div>
                   </div>
+                  {manualSignaling && localSignal && (
+                    answerAccepted ? (
+                      <p className="text-sm text-indigo-300 mb-4">
+                        Answer verified. Opening a direct connection...
+                      </p>
+                    ) : (
+                      <div className="mb-4">
+                        <SignalExchange
+                          outgoing={{
+                            title: 'Connection Offer',
+                            hint: 'No server is used: hand this signed offer to the other person.',
+                            text: localSignal,
+                            fileName: `cipher-offer-${pairingCode}.txt`
+                          }}
+                          incoming={{
+                            title: 'Their Answer',
+                            hint: 'Paste or load the answer they send back.',
+                            submitLabel: 'Connect',
+                            onSubmit: handleAnswer
+                          }}
+                        />
+                      </div>
+                    )
+                  )}
                   <p className="text-sm text-gray-400">
                     Waiting for someone to join...
                   </p>
@@ -273,6 +429,18 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
               ) : (
                 <>
                   <h2 className="text-xl font-semibold mb-4">Start New Chat</h2>
+                  {!manualSignaling && (
+                    <label className="flex items-center space-x-3 mb-4 text-sm text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={groupRoom}
+                        onChange={(e) => setGroupRoom(e.target.checked)}
+                        className="rounded border-gray-600 bg-gray-900 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <Users className="w-4 h-4 text-indigo-300" />
+                      <span>Group room (up to {MAX_GROUP_MEMBERS} people)</span>
+                    </label>
+                  )}
                   <Button
                     onClick={handleGenerateCode}
                     isLoading={isGenerating}
@@ -293,24 +461,37 @@ const PairingScreen: React.FC<PairingScreenProps> = ({ onPaired }) => {
             <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 shadow-xl border border-gray-700">
               <h2 className="text-xl font-semibold mb-4">Join Existing Chat</h2>
               <div className="space-y-4">
-                <input
-                  type="text"
-                  value={inputCode}
-                  onChange={(e) => setInputCode(e.target.value.toUpperCase())}
-                  placeholder="Enter secure code"
-                  className="w-full p-4 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-center text-xl font-mono tracking-wider placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
-                  maxLength={6}
-                  onKeyDown={(e) => e.key === 'Enter' && handleJoinChat()}
-                />
-                <Button
-                  onClick={handleJoinChat}
-                  isLoading={isJoining}
-                  className="w-full"
-                  disabled={!inputCode.trim() || !certificate}
-                >
-                  Join Chat
-                  <ArrowRight className="ml-2 w-5 h-5" />
-                </Button>
+                {manualSignaling ? (
+                  <SignalExchange
+                    incoming={{
+                      title: 'Connection Offer',
+                      hint: 'Paste or load the signed offer from the room creator.',
+                      submitLabel: 'Join Chat',
+                      onSubmit: handleOffer
+                    }}
+                  />
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      value={inputCode}
+                      onChange={(e) => setInputCode(e.target.value.toUpperCase())}
+                      placeholder="Enter secure code"
+                      className="w-full p-4 bg-gray-900/50 rounded-lg border border-gray-600 text-white text-center text-xl font-mono tracking-wider placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                      maxLength={11}
+                      onKeyDown={(e) => e.key === 'Enter' && handleJoinChat()}
+                    />
+                    <Button
+                      onClick={handleJoinChat}
+                      isLoading={isJoining}
+                      className="w-full"
+                      disabled={!inputCode.trim() || !certificate}
+                    >
+                      Join Chat
+                      <ArrowRight className="ml-2 w-5 h-5" />
+                    </Button>
+                  </>
+                )}
                 {!certificate && (
                   <p className="text-sm text-amber-400 text-center">
                     Waiting for certificate initialization...
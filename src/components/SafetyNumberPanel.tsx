@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BadgeCheck, Fingerprint, X } from 'lucide-react';
+import { useChat } from '../context/useChat';
+import { useContacts } from '../context/useContacts';
+import { RoomMember, SafetyNumber } from '../types';
+import Button from './ui/Button';
+
+interface SafetyNumberPanelProps {
+  members: RoomMember[];
+  selfId?: string;
+  onClose: () => void;
+}
+
+/**
+ * Safety numbers for each session in the room. Both people should see the
+ * same emoji and digits; comparing them in person or over a call rules out
+ * someone in the middle of the pairing.
+ */
+const SafetyNumberPanel: React.FC<SafetyNumberPanelProps> = ({ members, selfId, onClose }) => {
+  const { getSafetyNumber } = useChat();
+  const { displayName, isVerified, markVerified } = useContacts();
+  const [numbers, setNumbers] = useState<Record<string, SafetyNumber | null>>({});
+  const [error, setError] = useState('');
+  const others = members.filter(member => member.id !== selfId);
+  const getSafetyNumberRef = useRef(getSafetyNumber);
+  getSafetyNumberRef.current = getSafetyNumber;
+
+  // Worked out again whenever the room changes, since sessions change with it
+  useEffect(() => {
+    let cancelled = false;
+    const peers = members.filter(member => member.id !== selfId);
+    Promise.all(
+      peers.map(async member => [member.id, await getSafetyNumberRef.current(member.id)] as const)
+    ).then(entries => {
+      if (!cancelled) {
+        setNumbers(Object.fromEntries(entries));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [members, selfId]);
+
+  const toggleVerified = async (member: RoomMember, verified: boolean) => {
+    setError('');
+    try {
+      await markVerified(member.certificate, verified);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="absolute top-16 left-4 right-4 z-10 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-xl max-h-[70vh] overflow-y-auto">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <Fingerprint className="w-4 h-4 mr-2" />
+          Safety Numbers
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        Compare these with each person over a call or in person. If they match, nobody is in the middle.
+      </p>
+
+      {others.length === 0 ? (
+        <p className="text-xs text-gray-500">Nobody else is here yet</p>
+      ) : (
+        <ul className="space-y-4 text-sm">
+          {others.map(member => {
+            const number = numbers[member.id];
+            const verified = isVerified(member.certificate);
+            return (
+              <li key={member.id}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="flex items-center">
+                    {displayName(member.certificate)}
+                    {verified && <BadgeCheck className="w-4 h-4 ml-1 text-green-400" />}
+                  </span>
+                  {number && (
+                    <Button
+                      size="sm"
+                      variant={verified ? 'secondary' : 'primary'}
+                      onClick={() => toggleVerified(member, !verified)}
+                    >
+                      {verified ? 'Unmark' : 'Mark as verified'}
+                    </Button>
+                  )}
+                </div>
+                {number === undefined ? (
+                  <p className="text-xs text-gray-500">Working it out…</p>
+                ) : number === null ? (
+                  <p className="text-xs text-gray-500">No session with them to check yet</p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-7 gap-1 mb-2">
+                      {number.emoji.map((item, index) => (
+                        <div key={index} className="flex flex-col items-center bg-gray-900/50 rounded p-1">
+                          <span className="text-2xl">{item.emoji}</span>
+                          <span className="text-[10px] text-gray-400 text-center leading-tight">{item.name}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="font-mono text-xs text-gray-300 text-center tracking-wider">{number.digits}</p>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && <p className="mt-3 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default SafetyNumberPanel;
@@ -0,0 +1,155 @@
+import React, { useState, useRef } from 'react';
+import { Copy, Download, Upload, ArrowRight, XCircle } from 'lucide-react';
+import Button from './ui/Button';
+
+interface SignalExchangeProps {
+  // Blob we hand to the other person
+  outgoing?: {
+    title: string;
+    hint: string;
+    text: string;
+    fileName: string;
+  };
+  // Blob we receive from the other person
+  incoming?: {
+    title: string;
+    hint: string;
+    submitLabel: string;
+    onSubmit: (text: string) => Promise<void>;
+  };
+}
+
+/**
+ * Copy/paste or file exchange of signed WebRTC offers and answers
+ */
+const SignalExchange: React.FC<SignalExchangeProps> = ({ outgoing, incoming }) => {
+  const [pasted, setPasted] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const copyToClipboard = async () => {
+    if (!outgoing) return;
+    try {
+      await navigator.clipboard.writeText(outgoing.text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const downloadBlob = () => {
+    if (!outgoing) return;
+    const url = URL.createObjectURL(new Blob([outgoing.text], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = outgoing.fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setPasted(await file.text());
+      setError('');
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!incoming || !pasted.trim()) return;
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await incoming.onSubmit(pasted);
+      setPasted('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to use this connection data');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      {outgoing && (
+        <div>
+          <h3 className="font-semibold mb-1">{outgoing.title}</h3>
+          <p className="text-sm text-gray-400 mb-2">{outgoing.hint}</p>
+          <textarea
+            readOnly
+            value={outgoing.text}
+            onFocus={(e) => e.target.select()}
+            className="w-full h-24 p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-xs font-mono text-green-300 resize-none"
+          />
+          <div className="flex space-x-2 mt-2">
+            <Button onClick={copyToClipboard} variant="secondary" size="sm" className="flex-1">
+              <Copy className="w-4 h-4 mr-2" />
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+            <Button onClick={downloadBlob} variant="secondary" size="sm" className="flex-1">
+              <Download className="w-4 h-4 mr-2" />
+              Save as file
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {incoming && (
+        <div>
+          <h3 className="font-semibold mb-1">{incoming.title}</h3>
+          <p className="text-sm text-gray-400 mb-2">{incoming.hint}</p>
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="CIPHER-SIGNAL:..."
+            className="w-full h-24 p-3 bg-gray-900/50 rounded-lg border border-gray-600 text-xs font-mono text-white placeholder-gray-500 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 resize-none"
+          />
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileSelect}
+            className="hidden"
+            accept=".txt,.signal"
+          />
+          <div className="flex space-x-2 mt-2">
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="secondary"
+              size="sm"
+              className="flex-1"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Load file
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              isLoading={isSubmitting}
+              disabled={!pasted.trim()}
+              size="sm"
+              className="flex-1"
+            >
+              {incoming.submitLabel}
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          </div>
+          {error && (
+            <div className="flex items-center space-x-2 mt-2 text-sm text-red-300">
+              <XCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignalExchange;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface TransportErrorProps {
+  message: string;
+}
+
+/**
+ * Shown instead of the app when the chat transport cannot be set up
+ */
+const TransportError: React.FC<TransportErrorProps> = ({ message }) => {
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center justify-center p-8 text-center">
+      <AlertTriangle className="w-10 h-10 text-red-400 mb-4" />
+      <h1 className="text-2xl font-bold mb-2">Chat is not configured</h1>
+      <p className="text-gray-400 max-w-md">{message}</p>
+    </div>
+  );
+};
+
+export default TransportError;
@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
+import { TrustStore } from '../utils/trustStore';
+import { TrustAnchor } from '../types';
+
+const SOURCE_LABELS: Record<TrustAnchor['source'], string> = {
+  local: 'This session',
+  imported: 'Imported',
+  pinned: 'Pinned at pairing'
+};
+
+/**
+ * The certificate issuers this device trusts, with import and export of
+ * their public keys
+ */
+const TrustAnchorList: React.FC = () => {
+  const store = TrustStore.getInstance();
+  // Pairing pins issuers in the background; the list is read on every render
+  const [, setVersion] = useState(0);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const anchors = store.list();
+
+  const refresh = () => setVersion(version => version + 1);
+
+  const exportAnchors = () => {
+    const url = URL.createObjectURL(new Blob([store.export()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cipher-trust-anchors.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const importAnchors = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setNotice('');
+    setError('');
+    try {
+      const added = await store.import(await file.text());
+      setNotice(added === 0 ? 'All of these issuers were already trusted' : `Added ${added} trusted issuer${added === 1 ? '' : 's'}`);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const removeAnchor = (id: string) => {
+    store.remove(id);
+    refresh();
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-700 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-gray-400">Trusted Issuers ({anchors.length})</span>
+        <div className="flex items-center space-x-3">
+          <input type="file" accept="application/json,.json" ref={importInputRef} onChange={importAnchors} className="hidden" />
+          <button onClick={() => importInputRef.current?.click()} className="text-gray-400 hover:text-white" title="Import">
+            <Upload className="w-4 h-4" />
+          </button>
+          <button onClick={exportAnchors} className="text-gray-400 hover:text-white" title="Export">
+            <Download className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-1 max-h-32 overflow-y-auto">
+        {anchors.map(anchor => (
+          <li key={anchor.id} className="flex items-center justify-between text-xs">
+            <span className="truncate">
+              <span className="font-mono">{anchor.id}</span>
+              <span className="ml-2 text-gray-400">{SOURCE_LABELS[anchor.source]}</span>
+            </span>
+            {anchor.source !== 'local' && (
+              <button onClick={() => removeAnchor(anchor.id)} className="ml-2 text-gray-400 hover:text-red-400" title="Stop trusting">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {notice && <p className="mt-2 text-xs text-green-300">{notice}</p>}
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default TrustAnchorList;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Database, Lock, Unlock, Trash2, X } from 'lucide-react';
+import { useVault } from '../context/useVault';
+import Button from './ui/Button';
+
+interface VaultPanelProps {
+  onClose: () => void;
+}
+
+// How long stored history is kept
+const RETENTION_OPTIONS: { label: string; value: number | null }[] = [
+  { label: '1 day', value: 24 * 60 * 60 * 1000 },
+  { label: '1 week', value: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', value: 30 * 24 * 60 * 60 * 1000 },
+  { label: '1 year', value: 365 * 24 * 60 * 60 * 1000 },
+  { label: 'Until wiped', value: null }
+];
+
+const inputClass =
+  'w-full p-2 bg-gray-900/50 rounded-lg border border-gray-600 text-white placeholder-gray-400 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500';
+
+/**
+ * Settings for the encrypted local history: turn it on with a passphrase,
+ * unlock or lock it, choose how long it keeps messages, or wipe it.
+ */
+const VaultPanel: React.FC<VaultPanelProps> = ({ onClose }) => {
+  const { status, isSupported, retentionMs, createVault, unlockVault, lockVault, wipeVault, setRetention } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [retention, setRetentionChoice] = useState<number | null>(RETENTION_OPTIONS[2].value);
+  const [confirmingWipe, setConfirmingWipe] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError('');
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+    run(() => createVault(passphrase, retention));
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => unlockVault(passphrase));
+  };
+
+  const handleWipe = () => {
+    setConfirmingWipe(false);
+    run(wipeVault);
+  };
+
+  const retentionSelect = (value: number | null, onChange: (value: number | null) => void) => (
+    <select
+      value={value === null ? 'forever' : String(value)}
+      onChange={(e) => onChange(e.target.value === 'forever' ? null : Number(e.target.value))}
+      className="bg-gray-700 rounded px-2 py-1 text-sm"
+      disabled={isWorking}
+    >
+      {RETENTION_OPTIONS.map(option => (
+        <option key={option.label} value={option.value === null ? 'forever' : String(option.value)}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="absolute top-16 left-4 right-4 z-10 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-xl">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <Database className="w-4 h-4 mr-2" />
+          Local History
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!isSupported && (
+        <p className="text-sm text-gray-300">This browser cannot store history. Conversations end when the page closes.</p>
+      )}
+
+      {isSupported && status === 'off' && (
+        <form onSubmit={handleCreate} className="space-y-3 text-sm">
+          <p className="text-gray-300">
+            History is not kept: everything is gone when the page closes. Set a passphrase to keep an
+            encrypted copy of your messages and files on this device.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className={inputClass}
+            autoComplete="new-password"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            className={inputClass}
+            autoComplete="new-password"
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-gray-300">
+              <span>Keep for</span>
+              {retentionSelect(retention, setRetentionChoice)}
+            </label>
+            <Button type="submit" size="sm" isLoading={isWorking} disabled={!passphrase}>
+              Turn on
+            </Button>
+          </div>
+          <p className="text-xs text-gray-400">There is no way to recover a forgotten passphrase.</p>
+        </form>
+      )}
+
+      {isSupported && status === 'locked' && (
+        <form onSubmit={handleUnlock} className="space-y-3 text-sm">
+          <p className="flex items-center text-gray-300">
+            <Lock className="w-4 h-4 mr-2 text-amber-300" />
+            History is locked. Nothing is saved until you unlock it.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className={inputClass}
+            autoComplete="current-password"
+          />
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" isLoading={isWorking} disabled={!passphrase}>
+              Unlock
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isSupported && status === 'unlocked' && (
+        <div className="space-y-3 text-sm">
+          <p className="flex items-center text-green-300">
+            <Unlock className="w-4 h-4 mr-2" />
+            Messages and files are saved on this device, encrypted.
+          </p>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-gray-300">
+              <span>Keep for</span>
+              {retentionSelect(retentionMs, value => run(() => setRetention(value)))}
+            </label>
+            <Button size="sm" variant="secondary" onClick={lockVault}>
+              <Lock className="w-4 h-4 mr-1" />
+              Lock
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isSupported && status !== 'off' && (
+        <div className="mt-3 pt-3 border-t border-gray-700 text-sm">
+          {confirmingWipe ? (
+            <div className="p-2 bg-red-900 bg-opacity-40 border border-red-700 rounded text-xs">
+              <div className="flex items-start space-x-1 text-red-300">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>Every stored message and file is deleted for good, and history goes back to off.</span>
+              </div>
+              <div className="flex justify-end space-x-3 mt-2">
+                <button onClick={() => setConfirmingWipe(false)} className="text-gray-300 hover:text-white">
+                  Cancel
+                </button>
+                <button onClick={handleWipe} className="text-red-300 hover:text-red-200 font-medium">
+                  Wipe vault
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmingWipe(true)}
+              className="flex items-center space-x-1 text-red-400 hover:text-red-300"
+              disabled={isWorking}
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Wipe vault</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default VaultPanel;
@@ -1,130 +1,2162 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { useState, useEffect, useRef, ReactNode } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Message } from '../types';
-import { useCrypto } from './CryptoContext';
+import {
+  Certificate,
+  ChatMessage,
+  CountersignStatus,
+  DocumentInfo,
+  DocumentSignature,
+  DocumentVerification,
+  FileChunk,
+  FileOffer,
+  FileTransferProgress,
+  GroupControl,
+  KeyPair,
+  Message,
+  MessageMeta,
+  MessageStatus,
+  MessageType,
+  PairingRequest,
+  PairingResponse,
+  PairingStatus,
+  PresenceState,
+  RatchetState,
+  ReplyQuote,
+  RoomMember,
+  SafetyNumber,
+  SendOptions,
+  SessionSnapshot,
+  SignalingBlob,
+  StoredHistory,
+  StoredSession,
+  TransportConfig,
+  TransportEnvelope
+} from '../types';
+import TransportError from '../components/TransportError';
+import { ChatContext } from './useChat';
+import { useCrypto } from './useCrypto';
+import { useVault } from './useVault';
+import { CertificateManager } from '../utils/certificates';
+import { ContactBook } from '../utils/contacts';
+import { DoubleRatchet } from '../utils/doubleRatchet';
+import { hexToBase64 } from '../utils/encoding';
+import { FileTransfer } from '../utils/fileTransfer';
+import { PairingHandshake } from '../utils/pairing';
+import { PairingPake } from '../utils/pake';
+import { PresenceSigner } from '../utils/presence';
+import { ReplayWindow } from '../utils/replayWindow';
+import { ReplyQuotes } from '../utils/replyQuote';
+import { SafetyNumbers } from '../utils/safetyNumber';
+import { SenderKey } from '../utils/senderKeys';
+import { SessionResume } from '../utils/sessionResume';
+import { Sha256 } from '../utils/sha256';
+import { DigitalSigner } from '../utils/signing';
+import { SignedSignaling } from '../utils/signaling';
+import { createTransport, getTransportConfig, validateTransportConfig, WebRtcTransport } from '../utils/transports';
+import { TrustStore } from '../utils/trustStore';
+import { Vault } from '../utils/vault';
 
-// Use localStorage for room storage
-const getRooms = () => {
-  const rooms = localStorage.getItem('chatRooms');
-  return rooms ? JSON.parse(rooms) : {};
+// Largest group room, creator included
+export const MAX_GROUP_MEMBERS = 20;
+
+// Serialized pairwise ratchet sessions by room code and member id, so a
+// remounted provider picks up each session where it left off
+const ratchetSessions = new Map<string, RatchetState>();
+const sessionKey = (roomCode: string, memberId: string) => `${roomCode}/${memberId}`;
+
+// Sender keys kept per member, newest first, so messages sent just before
+// a re-key still decrypt
+const SENDER_KEY_GENERATIONS = 2;
+
+// Unacknowledged messages are resent after 2s, 4s, 8s... then marked failed
+const RETRY_BASE_MS = 2000;
+const MAX_SEND_ATTEMPTS = 5;
+
+// Signed messages older than this, or this far ahead of our clock, are
+// replays or badly skewed; failed messages are sealed afresh when retried
+const MAX_MESSAGE_AGE_MS = 5 * 60 * 1000;
+
+// File chunks a recipient may be sent ahead of its last acknowledgement,
+// and how many it receives between acknowledgements
+const TRANSFER_WINDOW = 16;
+const TRANSFER_ACK_EVERY = 4;
+// A transfer without progress asks for the missing chunks again, and is
+// paused after a minute of that
+const TRANSFER_STALL_MS = 5000;
+const MAX_TRANSFER_STALLS = 12;
+// Received files are held in memory until they are complete
+const MAX_TRANSFER_BYTES = 1024 * 1024 * 1024;
+
+// Every wrong code is an online guess at the secret. A sender waits twice as
+// long after each wrong code, and the room takes this many a minute from
+// everyone together, so guessing is slow without locking anyone out for good.
+const MAX_WRONG_CODES = 10;
+const WRONG_CODE_WINDOW_MS = 60 * 1000;
+const WRONG_CODE_BACKOFF_MS = 2000;
+// A PAKE exchange is not replaced until it has had this long to finish.
+// Unfinished ones are capped too, and new ones are refused while the table is full.
+const PAKE_TIMEOUT_MS = 60 * 1000;
+const MAX_PENDING_PAKES = 16;
+
+// A reaction is a single emoji, which may take several code units
+const MAX_REACTION_LENGTH = 16;
+const isReaction = (emoji: unknown): emoji is string =>
+  typeof emoji === 'string' && emoji.length > 0 && emoji.length <= MAX_REACTION_LENGTH && !/\s/.test(emoji);
+
+// Longest disappearing timer, and how often expired messages are swept
+const MAX_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+const EXPIRY_SWEEP_MS = 1000;
+const isExpiry = (value: unknown): value is number =>
+  Number.isSafeInteger(value) && (value as number) > 0 && (value as number) <= MAX_EXPIRY_MS;
+
+// Members are offline after three missed heartbeats; a typing flag that is
+// not repeated expires shortly after the next one was due
+const HEARTBEAT_INTERVAL_MS = 10000;
+const PRESENCE_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+const TYPING_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS + 5000;
+
+// Quiet period before the conversation is written to the vault
+const VAULT_SAVE_DELAY_MS = 1000;
+// A conversation in the vault is the room code with its creator's
+// certificate, since short room codes come round again
+const conversationKey = (roomCode: string, creatorId: string) => `${roomCode}/${creatorId}`;
+// Vault record keys for a conversation's messages, its files by message id, and its sessions
+const historyRecord = (conversation: string) => `history/${conversation}`;
+const attachmentRecord = (conversation: string, messageId: string) => `attachment/${conversation}/${messageId}`;
+const sessionRecord = (conversation: string) => `session/${conversation}`;
+
+// Last presence heard from a member
+interface PresenceEntry {
+  state: PresenceState;
+  timestamp: number; // Sender's clock, to drop stale notices
+  lastSeen: number; // Our clock
+  typingUntil: number;
+}
+
+// Decrypted body of a chat message
+interface MessageBody {
+  id: string;
+  type: MessageType;
+  content: string;
+  file?: FileOffer; // The file follows in chunks
+  documentSignature?: DocumentSignature; // Sender's signature over the file
+  replyTo?: ReplyQuote;
+  expiresIn?: number; // Milliseconds the message is kept after it arrives
+  viewOnce?: boolean;
+}
+
+// A file we are sending
+interface OutgoingTransfer {
+  file: Blob;
+  offer: FileOffer;
+  key: CryptoKey;
+  recipients: string[];
+  acked: Map<string, number>; // Chunks each recipient holds in order; set once it accepts
+  next: Map<string, number>; // Next chunk to send each recipient
+  queue: Promise<void>; // Chunks are read and sent one pump at a time
+  progress: number; // Acknowledged chunks at the last watchdog check
+  stalls: number;
+  timer?: number;
+}
+
+// A file we are receiving
+interface IncomingTransfer {
+  offer: FileOffer;
+  key: CryptoKey;
+  from: string;
+  messageId: string;
+  documentSignature?: DocumentSignature;
+  parts: Uint8Array[]; // Chunks received in order, already hashed
+  ahead: Map<number, Uint8Array>; // Chunks received past a gap
+  hash: Sha256;
+  unacked: number;
+  progress: number; // Chunks held at the last watchdog check
+  stalls: number;
+  timer?: number;
+}
+
+// Record a member's answer to a signed document, keeping the
+// countersignatures in signing order
+const withCountersign = (
+  info: DocumentInfo,
+  memberId: string,
+  signature: DocumentSignature | null
+): DocumentInfo => ({
+  ...info,
+  countersign: { ...info.countersign, [memberId]: signature ? 'signed' : 'declined' },
+  ...(signature && {
+    countersignatures: [...(info.countersignatures || []), signature].sort(
+      (a, b) => a.timestamp - b.timestamp
+    )
+  })
+});
+
+// A new version of a text message, keeping the one it replaces
+const withEdit = (message: Message, content: string, timestamp: number): Message => ({
+  ...message,
+  content,
+  editedAt: timestamp,
+  revisions: [
+    ...(message.revisions || []),
+    { content: message.content, timestamp: message.editedAt || message.timestamp }
+  ]
+});
+
+// What is left of a message deleted for everyone
+const tombstone = (message: Message): Message => ({
+  ...message,
+  content: '',
+  deleted: true,
+  documentInfo: undefined,
+  revisions: undefined,
+  reactions: undefined
+});
+
+// A view-once message after it was opened
+const viewedMessage = (message: Message): Message => ({
+  ...message,
+  content: '',
+  viewed: true
+});
+
+// A member's reaction added to or removed from a message
+const withReaction = (message: Message, memberId: string, emoji: string, add: boolean): Message => {
+  const reactions = { ...message.reactions };
+  const members = (reactions[emoji] || []).filter(id => id !== memberId);
+  if (add) {
+    reactions[emoji] = [...members, memberId];
+  } else if (members.length > 0) {
+    reactions[emoji] = members;
+  } else {
+    delete reactions[emoji];
+  }
+  return { ...message, reactions };
 };
 
-const saveRooms = (rooms: any) => {
-  localStorage.setItem('chatRooms', JSON.stringify(rooms));
+// A sent message waiting for delivery receipts
+interface OutboxEntry {
+  envelope: Extract<TransportEnvelope, { type: 'message' }>;
+  plaintext: string; // To seal the message again on retry
+  recipients: string[];
+  delivered: Set<string>;
+  read: Set<string>;
+  attempts: number;
+  timer?: number;
+}
+
+// Data covered by a ChatMessage signature
+const signedTranscript = (payload: Pick<ChatMessage, 'meta' | 'data' | 'iv' | 'header' | 'senderKey'>): string =>
+  JSON.stringify({
+    meta: payload.meta,
+    data: payload.data,
+    iv: payload.iv,
+    header: payload.header ?? null,
+    senderKey: payload.senderKey ?? null
+  });
+
+interface ChatProviderProps {
+  children: ReactNode;
+  transportConfig?: TransportConfig; // Defaults to the VITE_CHAT_TRANSPORT environment
+}
+
+export const ChatProvider: React.FC<ChatProviderProps> = ({ children, transportConfig }) => {
+  // A bad configuration is reported on screen rather than thrown mid-render
+  const [config] = useState(() => transportConfig || getTransportConfig());
+  const configError = validateTransportConfig(config);
+  if (configError) {
+    return <TransportError message={configError} />;
+  }
+  return <ChatSession transportConfig={config}>{children}</ChatSession>;
 };
 
-// Setup BroadcastChannel for cross-tab communication
-const broadcastChannel = new BroadcastChannel('chat_channel');
-
-interface ChatContextType {
-  messages: Message[];
-  isConnected: boolean;
-  isPaired: boolean;
-  pairingCode: string | null;
-  sendMessage: (content: string, type: 'text' | 'image' | 'audio' | 'document') => Promise<void>;
-  generateCode: () => Promise<string>;
-  joinChat: (code: string) => Promise<boolean>;
-  leaveChat: () => void;
-}
+interface ChatSessionProps {
+  children: ReactNode;
+  transportConfig: TransportConfig;
+}
+
+const ChatSession: React.FC<ChatSessionProps> = ({ children, transportConfig }) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+  const [presence, setPresence] = useState<Record<string, PresenceState>>({});
+  const [typingMembers, setTypingMembers] = useState<string[]>([]);
+  const [isPaired, setIsPaired] = useState(false);
+  const [pairingCode, setPairingCode] = useState<string | null>(null);
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [pairingStatus, setPairingStatus] = useState<PairingStatus>('idle');
+  const [incomingPairingRequest, setIncomingPairingRequest] = useState<PairingRequest | null>(null);
+  const [isGroup, setIsGroup] = useState(false);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [transfers, setTransfers] = useState<Record<string, FileTransferProgress>>({});
+  const [disappearAfter, setDisappearAfter] = useState<number | null>(null);
+  const [resumeNotice, setResumeNotice] = useState<{ memberId: string; resumedAt: number } | null>(null);
+  const crypto = useCrypto();
+  const { vault } = useVault();
+  const [transport] = useState(() => createTransport(transportConfig));
+  // Session keys live in refs so the channel handler never sees a stale value
+  const sessionKeyPairRef = useRef<KeyPair | null>(null);
+  // Pairwise Double Ratchet sessions by member id
+  const sessionsRef = useRef(new Map<string, DoubleRatchet>());
+  // The ECDH key each member agreed its session with, for safety numbers
+  const peerSessionKeysRef = useRef(new Map<string, string>());
+  // Group rooms: our sender key, and every other member's
+  const ownSenderKeyRef = useRef<SenderKey | null>(null);
+  const senderKeysRef = useRef(new Map<string, SenderKey[]>());
+  const rosterRef = useRef<RoomMember[]>([]);
+  const isGroupRef = useRef(false);
+  // The joiner's own request, kept to check the creator's answer against it
+  const outgoingRequestRef = useRef<PairingRequest | null>(null);
+  // Joiner: the PAKE run with the creator. Creator: the code's secret, the
+  // PAKE run with each joiner by certificate id, when recent wrong codes
+  // came in, and how long each sender of one must wait.
+  const joinPakeRef = useRef<PairingPake | null>(null);
+  const codeSecretRef = useRef<string | null>(null);
+  const joinerPakesRef = useRef(new Map<string, { pake: PairingPake; startedAt: number }>());
+  const wrongCodesRef = useRef<number[]>([]);
+  const codeBackoffRef = useRef(new Map<string, { count: number; until: number }>());
+  // Creator only: requests waiting for an answer, and the accepted ones in join order
+  const pendingRequestsRef = useRef<PairingRequest[]>([]);
+  const acceptedRequestsRef = useRef<PairingRequest[]>([]);
+  // Room role, and for joiners the certificate expected to answer the request
+  const isCreatorRef = useRef(false);
+  const creatorCertRef = useRef<Certificate | null>(null);
+  // WebRTC mode: the signed offer we handed out, to check answers against
+  const [localSignal, setLocalSignal] = useState<string | null>(null);
+  const localOfferRef = useRef<SignalingBlob | null>(null);
+  // Envelopes are handled one at a time, in arrival order
+  const inboxRef = useRef<Promise<void>>(Promise.resolve());
+  // Our messages awaiting receipts, by message id
+  const outboxRef = useRef(new Map<string, OutboxEntry>());
+  // Ids of messages already received, so resends are only acknowledged
+  // again, with who sent them, so only they may edit or delete them
+  const receivedIdsRef = useRef(new Map<string, string>());
+  // Our next sequence number per recipient ('*' for the group), and each
+  // sender's replay window keyed the same way under its member id
+  const sequencesRef = useRef(new Map<string, number>());
+  const replayWindowsRef = useRef(new Map<string, ReplayWindow>());
+  // Received messages not yet acknowledged as read, by sender
+  const unreadRef = useRef(new Map<string, string[]>());
+  // Presence heard from each member, whether we are typing, and a disconnect
+  // notice signed ahead of time for when the tab closes
+  const presenceRef = useRef(new Map<string, PresenceEntry>());
+  const typingRef = useRef(false);
+  const signedDisconnectRef = useRef<TransportEnvelope | null>(null);
+  const heartbeatRef = useRef<() => void>(() => undefined);
+  // When the conversation timer was last set, so older settings lose
+  const timerSetAtRef = useRef(0);
+  const expireRef = useRef<() => void>(() => undefined);
+  // Handlers for the room's envelopes and for the page showing again, kept
+  // fresh on every render so the subscription never sees stale state
+  const handleEnvelopeRef = useRef<(envelope: TransportEnvelope) => Promise<void>>(async () => undefined);
+  const visibilityRef = useRef<() => void>(() => undefined);
+  // Local history: the conversation whose stored history is loaded from the
+  // unlocked vault, and the ids of the messages whose files are stored with it
+  const vaultRoomRef = useRef<{ vault: Vault; roomCode: string; conversation: string } | null>(null);
+  const storedFilesRef = useRef(new Set<string>());
+  const vaultWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const loadHistoryRef = useRef<() => void>(() => undefined);
+  const saveHistoryRef = useRef<() => void>(() => undefined);
+  // Session resume: the sealed snapshot is rewritten after every change, one
+  // write at a time; a reloaded tab restores its identity first, then the rest
+  const snapshotRef = useRef<() => Promise<SessionSnapshot | null>>(async () => null);
+  const saveSnapshotRef = useRef<() => void>(() => undefined);
+  const snapshotWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const snapshotPendingRef = useRef(false);
+  const resumeCheckedRef = useRef(false);
+  const loadResumeRef = useRef<() => void>(() => undefined);
+  const pendingResumeRef = useRef<{ snapshot: SessionSnapshot; keyPair: KeyPair | null } | null>(null);
+  const resumeRef = useRef<() => void>(() => undefined);
+  const announceResumeRef = useRef<(() => Promise<void>) | null>(null);
+  // File transfers in each direction, by transfer id
+  const outgoingTransfersRef = useRef(new Map<string, OutgoingTransfer>());
+  const incomingTransfersRef = useRef(new Map<string, IncomingTransfer>());
+
+  const updateRoster = (roster: RoomMember[]) => {
+    rosterRef.current = roster;
+    setMembers(roster);
+    publishPresence();
+  };
+
+  // Turn the presence we have heard into per-member state, timing out the silent
+  const publishPresence = () => {
+    const now = Date.now();
+    const states: Record<string, PresenceState> = {};
+    const typing: string[] = [];
+
+    rosterRef.current.forEach(member => {
+      if (member.id === crypto.certificate?.id) {
+        return;
+      }
+      const entry = presenceRef.current.get(member.id);
+      const state = !entry || now - entry.lastSeen > PRESENCE_TIMEOUT_MS ? 'offline' : entry.state;
+      states[member.id] = state;
+      if (entry && state !== 'offline' && entry.typingUntil > now) {
+        typing.push(member.id);
+      }
+    });
+
+    setPresence(states);
+    setTypingMembers(typing);
+    setIsConnected(Object.values(states).some(state => state !== 'offline'));
+  };
+
+  // Tell the room we are here, and re-sign the notice sent if the tab closes
+  const sendHeartbeat = async () => {
+    if (!pairingCode || !isPaired || !crypto.certificate || !crypto.signingKeyPair) {
+      return;
+    }
+    const roomCode = pairingCode;
+    const from = crypto.certificate.id;
+    const timestamp = Date.now();
+
+    const [heartbeat, disconnect] = await Promise.all([
+      PresenceSigner.createHeartbeat(
+        roomCode,
+        document.visibilityState === 'visible' ? 'online' : 'away',
+        typingRef.current,
+        timestamp,
+        crypto.certificate,
+        crypto.signingKeyPair.privateKey
+      ),
+      PresenceSigner.createDisconnect(roomCode, timestamp, crypto.certificate, crypto.signingKeyPair.privateKey)
+    ]);
+
+    transport.send({ type: 'presence', roomCode, from, payload: heartbeat });
+    signedDisconnectRef.current = { type: 'disconnect', roomCode, from, payload: disconnect };
+  };
+
+  // Latest heartbeat for the interval, which is set up only once
+  heartbeatRef.current = () => {
+    sendHeartbeat().catch(error => {
+      console.error('Failed to send heartbeat:', error);
+    });
+    publishPresence();
+  };
+
+  const setTyping = (typing: boolean) => {
+    if (typingRef.current === typing) {
+      return;
+    }
+    typingRef.current = typing;
+    heartbeatRef.current();
+  };
+
+  const setMessageStatus = (id: string, status: MessageStatus) => {
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, status } : message)));
+  };
+
+  // Recipients still in the room who have not acknowledged a message
+  const awaitingDelivery = (entry: OutboxEntry): string[] =>
+    entry.recipients.filter(id =>
+      !entry.delivered.has(id) && rosterRef.current.some(member => member.id === id)
+    );
+
+  // Resend a message until every recipient acknowledges it, backing off each time
+  const scheduleResend = (id: string) => {
+    const entry = outboxRef.current.get(id);
+    if (!entry) {
+      return;
+    }
+    window.clearTimeout(entry.timer);
+    entry.timer = window.setTimeout(() => {
+      if (awaitingDelivery(entry).length === 0) {
+        return;
+      }
+      if (entry.attempts >= MAX_SEND_ATTEMPTS) {
+        setMessageStatus(id, 'failed');
+        return;
+      }
+      entry.attempts += 1;
+      transport.send(entry.envelope);
+      scheduleResend(id);
+    }, RETRY_BASE_MS * 2 ** (entry.attempts - 1));
+  };
+
+  // Record a member's receipt and move the message's status forward
+  const applyReceipt = (memberId: string, status: 'delivered' | 'read', messageIds: string[]) => {
+    messageIds.forEach(id => {
+      const entry = outboxRef.current.get(id);
+      if (!entry || !entry.recipients.includes(memberId)) {
+        return;
+      }
+      entry.delivered.add(memberId);
+      if (status === 'read') {
+        entry.read.add(memberId);
+      }
+
+      const present = entry.recipients.filter(recipient =>
+        rosterRef.current.some(member => member.id === recipient)
+      );
+      if (present.every(recipient => entry.read.has(recipient))) {
+        window.clearTimeout(entry.timer);
+        outboxRef.current.delete(id);
+        setMessageStatus(id, 'read');
+      } else if (awaitingDelivery(entry).length === 0) {
+        window.clearTimeout(entry.timer);
+        setMessageStatus(id, 'delivered');
+      }
+    });
+  };
+
+  // Acknowledge what we have shown while the page is visible
+  const sendReadReceipts = async (roomCode: string) => {
+    if (document.visibilityState !== 'visible') {
+      return;
+    }
+    const unread = unreadRef.current;
+    unreadRef.current = new Map();
+    for (const [memberId, messageIds] of unread) {
+      await sendControl(roomCode, memberId, { type: 'receipt', status: 'read', messageIds });
+    }
+  };
+
+  // The pairwise session with a member, restored from its serialized state if needed
+  const getSession = async (roomCode: string, memberId: string): Promise<DoubleRatchet> => {
+    let session = sessionsRef.current.get(memberId);
+    if (!session) {
+      const saved = ratchetSessions.get(sessionKey(roomCode, memberId));
+      if (!saved) {
+        throw new Error('Secure session not established');
+      }
+      session = await DoubleRatchet.restore(saved);
+      sessionsRef.current.set(memberId, session);
+    }
+    return session;
+  };
+
+  // Forget everything we hold for a member who left the room
+  const dropMember = (roomCode: string, memberId: string) => {
+    sessionsRef.current.delete(memberId);
+    peerSessionKeysRef.current.delete(memberId);
+    ratchetSessions.delete(sessionKey(roomCode, memberId));
+    senderKeysRef.current.delete(memberId);
+    sequencesRef.current.delete(memberId);
+    replayWindowsRef.current.forEach((_, key) => {
+      if (key.startsWith(`${memberId}/`)) {
+        replayWindowsRef.current.delete(key);
+      }
+    });
+  };
+
+  // Encrypt and sign a payload into the ChatMessage wire format: for one
+  // member over the pairwise session, or for the whole group with our sender key
+  const sealPayload = async (roomCode: string, plaintext: string, to?: string): Promise<ChatMessage> => {
+    if (!crypto.certificate) {
+      throw new Error('Digital identity not ready');
+    }
+    // Taken before anything async, so a payload sealed while leaving the
+    // room does not see the counters already reset
+    const channel = to || '*';
+    const sequence = (sequencesRef.current.get(channel) || 0) + 1;
+    sequencesRef.current.set(channel, sequence);
+
+    let sealed: Pick<ChatMessage, 'data' | 'iv' | 'header' | 'senderKey'>;
+    if (to) {
+      const session = await getSession(roomCode, to);
+      const { header, data, iv } = await session.encrypt(plaintext);
+      ratchetSessions.set(sessionKey(roomCode, to), session.serialize());
+      sealed = { data, iv, header };
+    } else {
+      if (!ownSenderKeyRef.current) {
+        throw new Error('Group session not established');
+      }
+      const { header, data, iv } = await ownSenderKeyRef.current.encrypt(plaintext);
+      sealed = { data, iv, senderKey: header };
+    }
+
+    const meta: MessageMeta = {
+      senderId: crypto.certificate.id,
+      roomCode,
+      to: to || null,
+      sequence,
+      timestamp: Date.now()
+    };
+
+    saveSnapshotRef.current();
+    return {
+      type: 'chat-message',
+      ...sealed,
+      meta,
+      // The signature covers the ciphertext and who sent it where and when,
+      // so tampering is caught before decryption and replays can be spotted
+      signature: await crypto.signMessage(signedTranscript({ ...sealed, meta })),
+      certificate: crypto.certificate
+    };
+  };
+
+  // Check a payload was signed by the member it came from, against the key
+  // pinned at pairing once its certificate checked out against its issuer.
+  const verifyMemberSignature = async (member: RoomMember, payload: ChatMessage): Promise<boolean> => {
+    if (
+      payload.certificate?.id !== member.id ||
+      payload.meta?.senderId !== member.id ||
+      !payload.signature ||
+      Date.now() >= member.certificate.expiresAt
+    ) {
+      return false;
+    }
+    const signerKey = await CertificateManager.getInstance().importPublicKey(member.certificate.publicKey);
+    return DigitalSigner.verifySignature(signedTranscript(payload), payload.signature, signerKey);
+  };
+
+  // Check the signed meta of a verified payload: it must be for this room
+  // and recipient, recent, and new to the sender's replay window. Returns
+  // the window to record the sequence in once the payload is accepted, or
+  // null to drop it.
+  const admitPayload = (
+    roomCode: string,
+    member: RoomMember,
+    payload: ChatMessage,
+    to: string | null
+  ): ReplayWindow | null => {
+    const { meta } = payload;
+    if (meta.roomCode !== roomCode || meta.to !== to) {
+      console.warn('Ignoring message addressed to another room or member');
+      return null;
+    }
+    if (Math.abs(Date.now() - meta.timestamp) > MAX_MESSAGE_AGE_MS) {
+      console.warn('Ignoring message with a stale timestamp');
+      return null;
+    }
+
+    const key = `${member.id}/${to || '*'}`;
+    let replayWindow = replayWindowsRef.current.get(key);
+    if (!replayWindow) {
+      replayWindow = new ReplayWindow();
+      replayWindowsRef.current.set(key, replayWindow);
+    }
+    const verdict = replayWindow.check(meta.sequence);
+    if (verdict !== 'fresh') {
+      console.warn(`Ignoring ${verdict} message ${meta.sequence} from ${member.id}`);
+      return null;
+    }
+    return replayWindow;
+  };
+
+  // Decrypt a ChatMessage received from a member
+  const openPayload = async (roomCode: string, from: string, payload: ChatMessage): Promise<string> => {
+    if (payload.senderKey) {
+      const { keyId } = payload.senderKey;
+      const senderKey = senderKeysRef.current.get(from)?.find(key => key.keyId === keyId);
+      if (!senderKey) {
+        throw new Error('Unknown sender key');
+      }
+      return senderKey.decrypt({ header: payload.senderKey, data: payload.data, iv: payload.iv });
+    }
+
+    if (!payload.header) {
+      throw new Error('Message has no ratchet header');
+    }
+
+    const session = await getSession(roomCode, from);
+    const plaintext = await session.decrypt({
+      header: payload.header,
+      data: payload.data,
+      iv: payload.iv
+    });
+    ratchetSessions.set(sessionKey(roomCode, from), session.serialize());
+    return plaintext;
+  };
+
+  // Start a pairwise Double Ratchet with a member. The one who was in the
+  // room first answers with its pairing key as the first ratchet key, as the
+  // creator does for every joiner.
+  const establishSession = async (
+    roomCode: string,
+    memberId: string,
+    peerPublicKey: string,
+    asResponder: boolean
+  ) => {
+    if (!sessionKeyPairRef.current) {
+      throw new Error('Key pair not generated');
+    }
+    const secret = await crypto.deriveSharedSecret(
+      peerPublicKey,
+      sessionKeyPairRef.current.privateKey
+    );
+    const rootKey = await DoubleRatchet.deriveRootKey(secret);
+
+    const session = asResponder
+      ? await DoubleRatchet.initResponder(rootKey, sessionKeyPairRef.current)
+      : await DoubleRatchet.initInitiator(rootKey, peerPublicKey);
+    sessionsRef.current.set(memberId, session);
+    ratchetSessions.set(sessionKey(roomCode, memberId), session.serialize());
+    peerSessionKeysRef.current.set(memberId, peerPublicKey);
+  };
+
+  const sendControl = async (roomCode: string, to: string, control: GroupControl) => {
+    if (!crypto.certificate) {
+      throw new Error('Digital identity not ready');
+    }
+    transport.send({
+      type: 'direct',
+      roomCode,
+      from: crypto.certificate.id,
+      to,
+      payload: await sealPayload(roomCode, JSON.stringify(control), to)
+    });
+  };
+
+  // Send a control message to everyone else in the room
+  const sendControlToAll = async (roomCode: string, control: GroupControl) => {
+    const selfId = crypto.certificate?.id;
+    for (const member of rosterRef.current) {
+      if (member.id !== selfId) {
+        await sendControl(roomCode, member.id, control);
+      }
+    }
+  };
+
+  // Group rooms: replace our sender key and hand it to every other member
+  const rekey = async (roomCode: string) => {
+    if (!isGroupRef.current || !crypto.certificate) {
+      return;
+    }
+    const senderKey = SenderKey.create();
+
+    const selfId = crypto.certificate.id;
+    for (const member of rosterRef.current) {
+      if (member.id !== selfId) {
+        await sendControl(roomCode, member.id, { type: 'sender_key', state: senderKey.distribution() });
+      }
+    }
+    // Only switch once everyone has the key, so no message arrives ahead of it
+    ownSenderKeyRef.current = senderKey;
+    saveSnapshotRef.current();
+  };
+
+  // Creator: tell every member who is in the room, then re-key
+  const publishRoster = async (roomCode: string) => {
+    if (!crypto.certificate) {
+      throw new Error('Digital identity not ready');
+    }
+    updateRoster([
+      { id: crypto.certificate.id, certificate: crypto.certificate, isCreator: true },
+      ...acceptedRequestsRef.current.map(request => ({
+        id: request.certificate.id,
+        certificate: request.certificate,
+        isCreator: false
+      }))
+    ]);
+
+    const control: GroupControl = {
+      type: 'roster',
+      group: isGroupRef.current,
+      members: acceptedRequestsRef.current
+    };
+    // Newest first: a newcomer must know the roster before older members,
+    // who learn about it next, start sending it keys
+    for (const request of [...acceptedRequestsRef.current].reverse()) {
+      await sendControl(roomCode, request.certificate.id, control);
+    }
+    await rekey(roomCode);
+  };
+
+  // Member: adopt the creator's roster, opening pairwise sessions with
+  // newcomers and dropping those who left, then re-key
+  const applyRoster = async (roomCode: string, group: boolean, requests: PairingRequest[]) => {
+    const creator = rosterRef.current.find(member => member.isCreator);
+    if (!creator || !crypto.certificate) {
+      return;
+    }
+    const selfId = crypto.certificate.id;
+
+    // Each entry is the member's own signed join request, so the creator
+    // cannot swap in a key the member never signed
+    const verified: PairingRequest[] = [];
+    for (const request of requests) {
+      if (await PairingHandshake.verifyRequest(request, roomCode)) {
+        verified.push(request);
+      } else {
+        console.warn('Ignoring roster entry with an invalid signature');
+      }
+    }
+    const selfIndex = verified.findIndex(request => request.certificate.id === selfId);
+    if (selfIndex === -1) {
+      return;
+    }
+
+    // The creator let them in, so their issuers are trusted from now on
+    for (const request of verified) {
+      await TrustStore.getInstance().pin(request.issuer).catch(error => {
+        console.warn('Failed to pin a member\'s issuer:', error);
+      });
+    }
+
+    const roster: RoomMember[] = [
+      creator,
+      ...verified.map(request => ({
+        id: request.certificate.id,
+        certificate: request.certificate,
+        isCreator: false
+      }))
+    ];
+    rosterRef.current
+      .filter(member => !roster.some(current => current.id === member.id))
+      .forEach(member => dropMember(roomCode, member.id));
+
+    for (const [index, request] of verified.entries()) {
+      const memberId = request.certificate.id;
+      if (memberId === selfId || sessionsRef.current.has(memberId)) {
+        continue;
+      }
+      await establishSession(roomCode, memberId, request.publicKey, index > selfIndex);
+    }
+
+    isGroupRef.current = group;
+    setIsGroup(group);
+    updateRoster(roster);
+    await rekey(roomCode);
+  };
+
+  const updateTransfer = (transferId: string, changes: Partial<FileTransferProgress>) => {
+    setTransfers(prev => (
+      prev[transferId] ? { ...prev, [transferId]: { ...prev[transferId], ...changes } } : prev
+    ));
+  };
+
+  // Send each recipient the chunks its window allows. Chunks go to each
+  // recipient separately, so a slow or reconnecting member holds nobody up.
+  const pumpTransfer = (roomCode: string, transferId: string) => {
+    const transfer = outgoingTransfersRef.current.get(transferId);
+    if (!transfer || !crypto.certificate) {
+      return;
+    }
+    const from = crypto.certificate.id;
+
+    transfer.queue = transfer.queue
+      .then(async () => {
+        for (const memberId of transfer.recipients) {
+          if (!rosterRef.current.some(member => member.id === memberId)) {
+            continue;
+          }
+          let next = transfer.next.get(memberId);
+          while (
+            next !== undefined &&
+            next < transfer.offer.chunkCount &&
+            next < (transfer.acked.get(memberId) || 0) + TRANSFER_WINDOW &&
+            outgoingTransfersRef.current.get(transferId) === transfer
+          ) {
+            const data = await FileTransfer.readChunk(transfer.file, next);
+            transport.send({
+              type: 'file_chunk',
+              roomCode,
+              from,
+              to: memberId,
+              payload: await FileTransfer.encryptChunk(transfer.key, transfer.offer, next, data)
+            });
+            next += 1;
+            transfer.next.set(memberId, next);
+          }
+        }
+      })
+      .catch(error => {
+        console.error('Failed to send file chunks:', error);
+      });
+  };
+
+  // Chunks acknowledged by the slowest recipient still in the room
+  const acknowledgedChunks = (transfer: OutgoingTransfer): number => {
+    const present = transfer.recipients.filter(id => rosterRef.current.some(member => member.id === id));
+    return Math.min(...present.map(id => transfer.acked.get(id) || 0), transfer.offer.chunkCount);
+  };
+
+  // Pause a send that stops being acknowledged
+  const watchOutgoing = (transferId: string) => {
+    const transfer = outgoingTransfersRef.current.get(transferId);
+    if (!transfer) {
+      return;
+    }
+    window.clearTimeout(transfer.timer);
+    transfer.timer = window.setTimeout(() => {
+      const progress = [...transfer.acked.values()].reduce((total, acked) => total + acked, 0);
+      if (progress > transfer.progress) {
+        transfer.progress = progress;
+        transfer.stalls = 0;
+      } else if (++transfer.stalls >= MAX_TRANSFER_STALLS) {
+        updateTransfer(transferId, { status: 'paused' });
+        return;
+      }
+      watchOutgoing(transferId);
+    }, TRANSFER_STALL_MS);
+  };
+
+  // A recipient accepted an offer or received more chunks
+  const applyFileAck = (roomCode: string, memberId: string, control: Extract<GroupControl, { type: 'file_ack' }>) => {
+    const transfer = outgoingTransfersRef.current.get(control.transferId);
+    if (!transfer || !transfer.recipients.includes(memberId) || !Number.isInteger(control.received)) {
+      return;
+    }
+    const received = Math.min(Math.max(control.received, 0), transfer.offer.chunkCount);
+    const previous = transfer.acked.get(memberId);
+    transfer.acked.set(memberId, Math.max(previous || 0, received));
+    // Go back to the first chunk it is missing
+    if (previous === undefined || control.resume) {
+      transfer.next.set(memberId, received);
+    }
+
+    const acknowledged = acknowledgedChunks(transfer);
+    const complete = acknowledged === transfer.offer.chunkCount;
+    updateTransfer(control.transferId, {
+      status: complete ? 'complete' : 'transferring',
+      bytesTransferred: Math.min(acknowledged * transfer.offer.chunkSize, transfer.offer.size)
+    });
+    if (complete) {
+      window.clearTimeout(transfer.timer);
+      outgoingTransfersRef.current.delete(control.transferId);
+      return;
+    }
+    if (transfer.stalls >= MAX_TRANSFER_STALLS) {
+      transfer.stalls = 0;
+      watchOutgoing(control.transferId);
+    }
+    pumpTransfer(roomCode, control.transferId);
+  };
+
+  // Tell the sender how far we got, or ask it to resend from there
+  const sendFileAck = async (roomCode: string, transfer: IncomingTransfer, resume: boolean) => {
+    transfer.unacked = 0;
+    updateTransfer(transfer.offer.transferId, {
+      bytesTransferred: Math.min(transfer.parts.length * transfer.offer.chunkSize, transfer.offer.size)
+    });
+    await sendControl(roomCode, transfer.from, {
+      type: 'file_ack',
+      transferId: transfer.offer.transferId,
+      received: transfer.parts.length,
+      resume
+    });
+  };
+
+  // Ask again for missing chunks while none arrive, then pause
+  const watchIncoming = (roomCode: string, transferId: string) => {
+    const transfer = incomingTransfersRef.current.get(transferId);
+    if (!transfer) {
+      return;
+    }
+    window.clearTimeout(transfer.timer);
+    transfer.timer = window.setTimeout(() => {
+      const progress = transfer.parts.length + transfer.ahead.size;
+      if (progress > transfer.progress) {
+        transfer.progress = progress;
+        transfer.stalls = 0;
+      } else if (++transfer.stalls >= MAX_TRANSFER_STALLS) {
+        updateTransfer(transferId, { status: 'paused' });
+        return;
+      } else {
+        sendFileAck(roomCode, transfer, true).catch(error => {
+          console.error('Failed to request file chunks:', error);
+        });
+      }
+      watchIncoming(roomCode, transferId);
+    }, TRANSFER_STALL_MS);
+  };
+
+  // Check a signed document against the hash of the file as it arrived and
+  // the certificate pinned for the member who sent it
+  const verifyDocument = async (
+    hash: string,
+    documentSignature: DocumentSignature,
+    memberId: string
+  ): Promise<DocumentVerification> => {
+    try {
+      const signerKey = await CertificateManager.getInstance().importPublicKey(
+        documentSignature.certificate.publicKey
+      );
+      if (!(await DigitalSigner.verifyDocumentHash(hexToBase64(hash), documentSignature, signerKey))) {
+        return 'tampered';
+      }
+    } catch (error) {
+      console.error('Document verification failed:', error);
+      return 'tampered';
+    }
+
+    const member = rosterRef.current.find(current => current.id === memberId);
+    return member &&
+      documentSignature.certificate.publicKey === member.certificate.publicKey &&
+      Date.now() < documentSignature.certificate.expiresAt
+      ? 'verified'
+      : 'untrusted';
+  };
+
+  const setDocumentVerification = (messageId: string, verification: DocumentVerification) => {
+    setMessages(prev => prev.map(message => (
+      message.id === messageId && message.documentInfo
+        ? { ...message, documentInfo: { ...message.documentInfo, verification } }
+        : message
+    )));
+  };
+
+  // Everyone in the room but the signer is asked to countersign
+  const pendingCountersigns = (signerId: string): Record<string, CountersignStatus> =>
+    Object.fromEntries(
+      rosterRef.current
+        .filter(member => member.id !== signerId)
+        .map(member => [member.id, 'pending' as const])
+    );
+
+  // A member countersigned a signed document, or declined to
+  const applyCountersign = async (
+    member: RoomMember,
+    messageId: string,
+    signature: DocumentSignature | null
+  ) => {
+    if (signature) {
+      // Only a signature made with the member's pinned key counts
+      const memberKey = await CertificateManager.getInstance().importPublicKey(member.certificate.publicKey);
+      if (
+        signature.certificate.publicKey !== member.certificate.publicKey ||
+        !(await DigitalSigner.verifyDocumentHash(signature.documentHash, signature, memberKey))
+      ) {
+        console.warn('Ignoring countersignature that does not match its sender');
+        return;
+      }
+    }
+
+    setMessages(prev => prev.map(message => {
+      const info = message.documentInfo;
+      if (
+        message.id !== messageId ||
+        !info?.signature ||
+        info.countersign?.[member.id] !== 'pending' ||
+        (signature && signature.documentHash !== info.signature.documentHash)
+      ) {
+        return message;
+      }
+      return { ...message, documentInfo: withCountersign(info, member.id, signature) };
+    }));
+  };
+
+  // Stop a deleted message's file transfer and free the file. Safe to
+  // repeat, so it may run inside a state update.
+  const discardFile = (message: Message) => {
+    if (!message.transferId) {
+      return;
+    }
+    window.clearTimeout(outgoingTransfersRef.current.get(message.transferId)?.timer);
+    window.clearTimeout(incomingTransfersRef.current.get(message.transferId)?.timer);
+    outgoingTransfersRef.current.delete(message.transferId);
+    incomingTransfersRef.current.delete(message.transferId);
+    if (message.content) {
+      URL.revokeObjectURL(message.content);
+    }
+  };
+
+  // Another member edited or deleted a message. Only the member who sent
+  // it may do either.
+  const applyRevision = (
+    member: RoomMember,
+    control: Extract<GroupControl, { type: 'edit' | 'delete' }>
+  ) => {
+    if (receivedIdsRef.current.get(control.messageId) !== member.id) {
+      console.warn(`Ignoring ${control.type} of a message not sent by ${member.id}`);
+      return;
+    }
+
+    setMessages(prev => prev.map(message => {
+      if (message.id !== control.messageId || message.senderId !== member.id || message.deleted) {
+        return message;
+      }
+      if (control.type === 'delete') {
+        discardFile(message);
+        return tombstone(message);
+      }
+      // Only text is edited, and an edit older than the version shown is dropped
+      return message.type === 'text' && control.timestamp > (message.editedAt || message.timestamp)
+        ? withEdit(message, control.content, control.timestamp)
+        : message;
+    }));
+  };
+
+  // A recipient opened one of our view-once messages. Our copy is wiped
+  // once everyone still in the room has.
+  const applyViewed = (memberId: string, messageId: string) => {
+    setMessages(prev => prev.map(message => {
+      if (message.id !== messageId || message.sender !== 'self' || !message.viewOnce || message.viewed) {
+        return message;
+      }
+      const viewedBy = [...(message.viewedBy || []).filter(id => id !== memberId), memberId];
+      const waiting = rosterRef.current.filter(
+        member => member.id !== message.senderId && !viewedBy.includes(member.id)
+      );
+      if (waiting.length > 0) {
+        return { ...message, viewedBy };
+      }
+      discardFile(message);
+      return { ...viewedMessage(message), viewedBy };
+    }));
+  };
+
+  // Start receiving a file announced in a message
+  const acceptFileOffer = async (
+    roomCode: string,
+    from: string,
+    messageId: string,
+    offer: FileOffer,
+    documentSignature?: DocumentSignature
+  ) => {
+    if (
+      incomingTransfersRef.current.has(offer.transferId) ||
+      !Number.isSafeInteger(offer.size) ||
+      offer.size < 0 ||
+      offer.size > MAX_TRANSFER_BYTES ||
+      offer.chunkSize !== FileTransfer.CHUNK_SIZE ||
+      offer.chunkCount !== Math.max(1, Math.ceil(offer.size / offer.chunkSize))
+    ) {
+      throw new Error('Invalid or oversized file offer');
+    }
+
+    const transfer: IncomingTransfer = {
+      offer,
+      key: await FileTransfer.importKey(offer),
+      from,
+      messageId,
+      documentSignature,
+      parts: [],
+      ahead: new Map(),
+      hash: new Sha256(),
+      unacked: 0,
+      progress: 0,
+      stalls: 0
+    };
+    incomingTransfersRef.current.set(offer.transferId, transfer);
+    setTransfers(prev => ({
+      ...prev,
+      [offer.transferId]: {
+        transferId: offer.transferId,
+        messageId,
+        direction: 'receive',
+        name: offer.name,
+        mimeType: offer.mimeType,
+        size: offer.size,
+        bytesTransferred: 0,
+        status: 'transferring'
+      }
+    }));
+    await sendFileAck(roomCode, transfer, false);
+    watchIncoming(roomCode, offer.transferId);
+  };
+
+  const receiveFileChunk = async (roomCode: string, from: string, chunk: FileChunk) => {
+    const transfer = incomingTransfersRef.current.get(chunk.transferId);
+    if (!transfer || transfer.from !== from) {
+      return;
+    }
+    const { offer } = transfer;
+    const { index } = chunk;
+    if (
+      !Number.isInteger(index) ||
+      index < transfer.parts.length ||
+      index >= offer.chunkCount ||
+      transfer.ahead.has(index)
+    ) {
+      return; // Already held, or not part of the file
+    }
+
+    let data: Uint8Array;
+    try {
+      data = await FileTransfer.decryptChunk(transfer.key, offer, chunk);
+    } catch {
+      console.warn('Dropping file chunk that failed authentication');
+      return;
+    }
+    const expectedLength = Math.min(offer.chunkSize, offer.size - index * offer.chunkSize);
+    if (data.length !== expectedLength || incomingTransfersRef.current.get(chunk.transferId) !== transfer) {
+      return;
+    }
+
+    // Hash chunks as soon as they are in order, so the file is never read twice
+    const inOrder = transfer.parts.length;
+    transfer.ahead.set(index, data);
+    for (let part = transfer.ahead.get(transfer.parts.length); part; part = transfer.ahead.get(transfer.parts.length)) {
+      transfer.ahead.delete(transfer.parts.length);
+      transfer.hash.update(part);
+      transfer.parts.push(part);
+    }
+    transfer.unacked += 1;
+    // The sender came back after we gave up waiting
+    if (transfer.stalls >= MAX_TRANSFER_STALLS) {
+      transfer.stalls = 0;
+      updateTransfer(offer.transferId, { status: 'transferring' });
+      watchIncoming(roomCode, offer.transferId);
+    }
+
+    if (transfer.parts.length < offer.chunkCount) {
+      // Filling a gap frees the sender's window at once
+      if (transfer.unacked >= TRANSFER_ACK_EVERY || transfer.parts.length > inOrder + 1) {
+        await sendFileAck(roomCode, transfer, false);
+      }
+      return;
+    }
+
+    window.clearTimeout(transfer.timer);
+    const hash = transfer.hash.hex();
+    if (hash !== offer.hash) {
+      incomingTransfersRef.current.delete(offer.transferId);
+      updateTransfer(offer.transferId, { status: 'failed', error: 'File does not match its hash' });
+      if (transfer.documentSignature) {
+        setDocumentVerification(transfer.messageId, 'tampered');
+      }
+      return;
+    }
+    if (transfer.documentSignature) {
+      setDocumentVerification(
+        transfer.messageId,
+        await verifyDocument(hash, transfer.documentSignature, from)
+      );
+    }
+
+    const url = URL.createObjectURL(new Blob(transfer.parts, { type: FileTransfer.blobType(offer.mimeType) }));
+    transfer.parts = [];
+    incomingTransfersRef.current.delete(offer.transferId);
+    setMessages(prev => prev.map(message => (
+      message.id === transfer.messageId ? { ...message, content: url } : message
+    )));
+    updateTransfer(offer.transferId, { status: 'complete', bytesTransferred: offer.size });
+    await sendControl(roomCode, from, {
+      type: 'file_ack',
+      transferId: offer.transferId,
+      received: offer.chunkCount,
+      resume: false
+    });
+  };
+
+  // Open the transport for the lifetime of the provider
+  useEffect(() => {
+    transport.connect().catch(error => {
+      console.error('Failed to connect transport:', error);
+    });
+
+    return () => {
+      transport.close();
+    };
+  }, [transport]);
+
+  // Envelopes from the room, handled with the latest state
+  handleEnvelopeRef.current = async (envelope: TransportEnvelope) => {
+    if (!pairingCode || envelope.roomCode !== pairingCode) {
+      return;
+    }
+    const selfId = crypto.certificate?.id;
+
+    if (envelope.type === 'message') {
+      if (envelope.from === selfId || (envelope.to && envelope.to !== selfId)) {
+        return;
+      }
+      const member = rosterRef.current.find(current => current.id === envelope.from);
+      if (!member) {
+        console.warn('Ignoring message from someone outside the room');
+        return;
+      }
+      const payload: ChatMessage = envelope.payload;
+
+      // The signature must come from the member the message claims to be from
+      let isVerified = false;
+      try {
+        isVerified = await verifyMemberSignature(member, payload);
+      } catch (verifyError) {
+        console.warn('Message verification failed:', verifyError);
+        isVerified = false;
+      }
+      // Nothing unsigned is shown; in groups every member holds every
+      // sender key, so only the signature tells senders apart
+      if (!isVerified) {
+        console.warn('Ignoring message whose signature does not match its sender');
+        return;
+      }
+
+      // A resend means our receipt was lost: acknowledge it again
+      if (receivedIdsRef.current.has(envelope.id)) {
+        await sendControl(pairingCode, member.id, {
+          type: 'receipt',
+          status: 'delivered',
+          messageIds: [envelope.id]
+        });
+        return;
+      }
+
+      const replayWindow = admitPayload(pairingCode, member, payload, envelope.to || null);
+      if (!replayWindow) {
+        return;
+      }
+
+      let newMessage: Message;
+      let fileOffer: FileOffer | null = null;
+      let documentSignature: DocumentSignature | undefined;
+      try {
+        const plaintext: MessageBody = JSON.parse(await openPayload(pairingCode, member.id, payload));
+        if (plaintext.id !== envelope.id) {
+          throw new Error('Message id does not match its envelope');
+        }
+
+        const { sequence } = payload.meta;
+        const late = replayWindow.isLate(sequence);
+        const missedBefore = replayWindow.accept(sequence);
+        if (missedBefore > 0) {
+          console.warn(`${missedBefore} message(s) from ${member.id} have not arrived`);
+        }
+
+        fileOffer = plaintext.file || null;
+        documentSignature = fileOffer ? plaintext.documentSignature : undefined;
+        const replyTo = ReplyQuotes.sanitize(plaintext.replyTo);
+        const expiresIn = isExpiry(plaintext.expiresIn) ? plaintext.expiresIn : undefined;
+        const viewOnce = plaintext.viewOnce === true && (plaintext.type === 'image' || plaintext.type === 'audio');
+
+        newMessage = {
+          id: plaintext.id,
+          // A file's content is filled in once all of it has arrived
+          content: fileOffer ? '' : plaintext.content,
+          type: plaintext.type,
+          timestamp: payload.meta.timestamp,
+          sender: 'peer',
+          senderId: member.id,
+          encrypted: true,
+          verified: true,
+          signature: payload.signature,
+          senderCert: member.certificate,
+          ...(missedBefore > 0 && { missedBefore }),
+          ...(late && { late }),
+          ...(replyTo && { replyTo }),
+          ...(expiresIn && { expiresAt: Date.now() + expiresIn }),
+          ...(viewOnce && { viewOnce }),
+          ...(fileOffer && {
+            transferId: fileOffer.transferId,
+            documentInfo: {
+              name: fileOffer.name,
+              mimeType: fileOffer.mimeType,
+              size: fileOffer.size,
+              hash: fileOffer.hash,
+              ...(documentSignature && {
+                signature: documentSignature,
+                verification: 'pending' as const,
+                countersign: pendingCountersigns(member.id)
+              })
+            }
+          })
+        };
+      } catch (error) {
+        console.error('Failed to decrypt received message:', error);
+        // Still show that something arrived, but never as an encrypted
+        // message; keyed by the envelope so resends show it once
+        newMessage = {
+          id: envelope.id,
+          content: 'Unable to decrypt message',
+          type: 'text',
+          timestamp: Date.now(),
+          sender: 'peer',
+          senderId: member.id,
+          encrypted: false,
+          verified: false,
+          signature: payload.signature,
+          senderCert: member.certificate
+        };
+      }
+
+      setMessages(prev =>
+        prev.some(message => message.id === newMessage.id)
+          ? prev.map(message => (message.id === newMessage.id ? newMessage : message))
+          : [...prev, newMessage]
+      );
+
+      if (newMessage.encrypted) {
+        receivedIdsRef.current.set(envelope.id, member.id);
+        await sendControl(pairingCode, member.id, {
+          type: 'receipt',
+          status: 'delivered',
+          messageIds: [envelope.id]
+        });
+        unreadRef.current.set(member.id, [...(unreadRef.current.get(member.id) || []), envelope.id]);
+        await sendReadReceipts(pairingCode);
+        if (fileOffer) {
+          await acceptFileOffer(pairingCode, member.id, envelope.id, fileOffer, documentSignature).catch(error => {
+            console.error('Refusing file offer:', error);
+          });
+        }
+      }
+    } else if (envelope.type === 'file_chunk') {
+      if (envelope.to !== selfId) {
+        return;
+      }
+      await receiveFileChunk(pairingCode, envelope.from, envelope.payload);
+    } else if (envelope.type === 'direct') {
+      if (envelope.to !== selfId) {
+        return;
+      }
+      const member = rosterRef.current.find(current => current.id === envelope.from);
+      if (!member) {
+        return;
+      }
+      const { payload } = envelope;
+      if (!(await verifyMemberSignature(member, payload))) {
+        console.warn('Ignoring control message whose signature does not match its sender');
+        return;
+      }
+      const replayWindow = admitPayload(pairingCode, member, payload, envelope.to);
+      if (!replayWindow) {
+        return;
+      }
+
+      let control: GroupControl;
+      try {
+        control = JSON.parse(await openPayload(pairingCode, member.id, payload));
+        replayWindow.accept(payload.meta.sequence);
+      } catch (error) {
+        console.error('Failed to decrypt control message:', error);
+        return;
+      }
+
+      if (control.type === 'roster' && member.isCreator) {
+        await applyRoster(pairingCode, control.group, control.members);
+      } else if (control.type === 'sender_key') {
+        const previous = senderKeysRef.current.get(member.id) || [];
+        senderKeysRef.current.set(
+          member.id,
+          [SenderKey.restore(control.state), ...previous].slice(0, SENDER_KEY_GENERATIONS)
+        );
+      } else if (control.type === 'receipt') {
+        applyReceipt(member.id, control.status, control.messageIds);
+      } else if (control.type === 'file_ack') {
+        applyFileAck(pairingCode, member.id, control);
+      } else if (control.type === 'countersign') {
+        await applyCountersign(member, control.messageId, control.signature);
+      } else if (control.type === 'edit' || control.type === 'delete') {
+        applyRevision(member, control);
+      } else if (control.type === 'timer') {
+        if ((control.duration === null || isExpiry(control.duration)) && control.timestamp > timerSetAtRef.current) {
+          timerSetAtRef.current = control.timestamp;
+          setDisappearAfter(control.duration);
+        }
+      } else if (control.type === 'viewed') {
+        applyViewed(member.id, control.messageId);
+      } else if (control.type === 'resume') {
+        if (!(await SessionResume.verifyToken(control.token, pairingCode, member.certificate, MAX_MESSAGE_AGE_MS))) {
+          console.warn('Ignoring resume notice with an invalid token');
+          return;
+        }
+        setResumeNotice({ memberId: member.id, resumedAt: control.token.resumedAt });
+        // Hand over straight away what was sent while it was reloading
+        outboxRef.current.forEach(entry => {
+          if (awaitingDelivery(entry).includes(member.id)) {
+            transport.send(entry.envelope);
+          }
+        });
+      } else if (control.type === 'reaction' && isReaction(control.emoji)) {
+        setMessages(prev => prev.map(message => (
+          message.id === control.messageId && !message.deleted
+            ? withReaction(message, member.id, control.emoji, control.add)
+            : message
+        )));
+      } else if (control.type === 'leave' && isCreatorRef.current) {
+        acceptedRequestsRef.current = acceptedRequestsRef.current.filter(
+          request => request.certificate.id !== member.id
+        );
+        dropMember(pairingCode, member.id);
+        await publishRoster(pairingCode);
+      }
+    } else if (envelope.type === 'presence' || envelope.type === 'disconnect') {
+      if (envelope.from === selfId) {
+        return;
+      }
+      const member = rosterRef.current.find(current => current.id === envelope.from);
+      if (!member) {
+        return;
+      }
+      const notice = envelope.payload;
+      if (!(await PresenceSigner.verify(notice, pairingCode, member.certificate))) {
+        console.warn('Ignoring presence notice with an invalid signature');
+        return;
+      }
+
+      // A disconnect is signed alongside the latest heartbeat, so it may
+      // share its timestamp; anything older is stale or replayed
+      const previous = presenceRef.current.get(member.id);
+      if (
+        previous &&
+        (notice.timestamp < previous.timestamp ||
+          (notice.type === 'presence' && notice.timestamp === previous.timestamp))
+      ) {
+        return;
+      }
+
+      const now = Date.now();
+      presenceRef.current.set(member.id, notice.type === 'presence'
+        ? {
+            state: notice.state,
+            timestamp: notice.timestamp,
+            lastSeen: now,
+            typingUntil: notice.typing ? now + TYPING_TIMEOUT_MS : 0
+          }
+        : { state: 'offline', timestamp: notice.timestamp, lastSeen: now, typingUntil: 0 });
+      publishPresence();
+    } else if (envelope.type === 'room_closed') {
+      // Transports drop unsigned closes that members send, so only the
+      // creator's signed close needs checking
+      if (envelope.payload) {
+        const creator = rosterRef.current.find(member => member.isCreator);
+        if (
+          isCreatorRef.current ||
+          !creator ||
+          envelope.from !== creator.id ||
+          !(await PresenceSigner.verify(envelope.payload, pairingCode, creator.certificate))
+        ) {
+          console.warn('Ignoring room closed notice that the creator did not sign');
+          return;
+        }
+      }
+      leaveChat();
+    } else if (envelope.type === 'pake_init') {
+      const secret = codeSecretRef.current;
+      const joinerId = envelope.from;
+      if (
+        !isCreatorRef.current ||
+        !secret ||
+        rosterRef.current.some(member => member.id === joinerId) ||
+        pendingRequestsRef.current.some(pending => pending.certificate.id === joinerId)
+      ) {
+        return;
+      }
+      if (!mayTryCode(joinerId)) {
+        console.warn('Too many wrong pairing codes; try again later');
+        return;
+      }
+      // Whoever claims the same id cannot take over an exchange under way
+      const pakes = joinerPakesRef.current;
+      const now = Date.now();
+      const running = pakes.get(joinerId);
+      if (running && now - running.startedAt < PAKE_TIMEOUT_MS) {
+        return;
+      }
+      // Only exchanges that ran out of time make room, never one under way
+      pakes.forEach((entry, id) => {
+        if (now - entry.startedAt >= PAKE_TIMEOUT_MS) {
+          pakes.delete(id);
+        }
+      });
+      if (pakes.size >= MAX_PENDING_PAKES) {
+        console.warn('Too many pairing attempts under way; try again later');
+        return;
+      }
+
+      const pake = await PairingPake.start('creator', pairingCode, secret, joinerId);
+      try {
+        await pake.finish(envelope.payload);
+      } catch (error) {
+        console.warn('Ignoring an invalid PAKE share:', error);
+        return;
+      }
+      pakes.set(joinerId, { pake, startedAt: Date.now() });
+      transport.send({ type: 'pake_reply', roomCode: pairingCode, to: joinerId, payload: pake.share });
+    } else if (envelope.type === 'pake_reply') {
+      // Joiner: with the creator's share we can prove we know the code
+      const pake = joinPakeRef.current;
+      const keyPair = sessionKeyPairRef.current;
+      if (isPaired || !pake || outgoingRequestRef.current || envelope.to !== selfId) {
+        return;
+      }
+      if (!keyPair || !crypto.certificate || !crypto.signingKeyPair) {
+        return;
+      }
+      try {
+        await pake.finish(envelope.payload);
+      } catch (error) {
+        console.warn('Ignoring an invalid PAKE share:', error);
+        return;
+      }
+
+      const request = await PairingHandshake.createRequest(
+        pairingCode,
+        await crypto.exportPublicKey(keyPair.publicKey),
+        crypto.certificate,
+        crypto.signingKeyPair.privateKey
+      );
+      outgoingRequestRef.current = request;
+      // Ask the room creator to let us in; we are paired once it accepts
+      transport.send({
+        type: 'pairing_request',
+        roomCode: pairingCode,
+        payload: request,
+        proof: await pake.prove(request.signature)
+      });
+    } else if (envelope.type === 'pairing_request') {
+      if (!isCreatorRef.current) {
+        return;
+      }
+      const request: PairingRequest = envelope.payload;
+      const requesterId = request.certificate.id;
+      if (
+        rosterRef.current.some(member => member.id === requesterId) ||
+        pendingRequestsRef.current.some(pending => pending.certificate.id === requesterId)
+      ) {
+        return;
+      }
+
+      // Only someone who knows the whole code can make the proof. They
+      // are turned down, so they do not wait for an answer forever.
+      const pake = joinerPakesRef.current.get(requesterId)?.pake;
+      if (!pake) {
+        return;
+      }
+      if (!envelope.proof || !(await pake.check(request.signature, envelope.proof))) {
+        console.warn('Turning down a pairing request made with the wrong code');
+        recordWrongCode(requesterId);
+        await answerRequest(pairingCode, request, false);
+        return;
+      }
+      if (!(await PairingHandshake.verifyRequest(request, pairingCode))) {
+        console.warn('Ignoring pairing request with an invalid signature');
+        return;
+      }
+
+      // A full room turns the request down straight away
+      const capacity = isGroupRef.current ? MAX_GROUP_MEMBERS : 2;
+      if (Math.max(rosterRef.current.length, 1) + pendingRequestsRef.current.length >= capacity) {
+        await answerRequest(pairingCode, request, false);
+        return;
+      }
+
+      pendingRequestsRef.current = [...pendingRequestsRef.current, request];
+      if (pendingRequestsRef.current.length === 1) {
+        setIncomingPairingRequest(request);
+        if (!isPaired) {
+          setPairingStatus('approval-needed');
+        }
+      }
+    } else if (envelope.type === 'pairing_response') {
+      const request = outgoingRequestRef.current;
+      if (isPaired || !request || envelope.to !== selfId) {
+        return;
+      }
+      const response: PairingResponse = envelope.payload;
+
+      // The answer must come from the certificate the room was registered with
+      const creatorCert = creatorCertRef.current;
+      if (!creatorCert || creatorCert.publicKey !== response.certificate.publicKey) {
+        console.warn('Ignoring pairing response from someone other than the room creator');
+        return;
+      }
+      if (!(await PairingHandshake.verifyResponse(response, request))) {
+        console.warn('Ignoring pairing response with an invalid signature');
+        return;
+      }
+      // Someone who got between us and the creator cannot prove they know the code
+      if (
+        response.accepted &&
+        !(envelope.proof && (await joinPakeRef.current?.check(response.signature, envelope.proof)))
+      ) {
+        console.warn('Ignoring pairing response without proof of the code');
+        return;
+      }
+
+      outgoingRequestRef.current = null;
+      joinPakeRef.current = null;
+      if (!response.accepted) {
+        transport.leaveRoom(pairingCode);
+        sessionKeyPairRef.current = null;
+        setLocalSignal(null);
+        crypto.endSession();
+        setPairingCode(null);
+        setShareCode(null);
+        setPairingStatus('rejected');
+        return;
+      }
+
+      try {
+        // Only now is the creator's issuer known to be theirs
+        await TrustStore.getInstance().pin(response.issuer);
+        await establishSession(pairingCode, response.certificate.id, response.publicKey, false);
+        // The creator's roster fills in everyone else
+        updateRoster([
+          { id: response.certificate.id, certificate: response.certificate, isCreator: true },
+          { id: request.certificate.id, certificate: request.certificate, isCreator: false }
+        ]);
+        setIsPaired(true);
+        setPairingStatus('paired');
+      } catch (error) {
+        console.error('Key exchange failed:', error);
+      }
+    }
+  };
+
+  // Messages that arrived while the page was hidden are read once it shows again
+  visibilityRef.current = () => {
+    if (!pairingCode) {
+      return;
+    }
+    // Online or away changes right away, not at the next heartbeat
+    heartbeatRef.current();
+    inboxRef.current = inboxRef.current
+      .then(() => sendReadReceipts(pairingCode))
+      .catch(error => {
+        console.error('Failed to send read receipts:', error);
+      });
+  };
+
+  useEffect(() => {
+    const handleVisibilityChange = () => visibilityRef.current();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
-const ChatContext = createContext<ChatContextType | null>(null);
+    // Listen for envelopes from the room
+    const unsubscribe = transport.onMessage((envelope: TransportEnvelope) => {
+      inboxRef.current = inboxRef.current
+        .then(() => handleEnvelopeRef.current(envelope))
+        .then(() => saveSnapshotRef.current())
+        .catch(error => {
+          console.error('Failed to handle envelope:', error);
+        });
+    });
 
-export const useChat = () => {
-  const context = useContext(ChatContext);
-  if (!context) {
-    throw new Error('useChat must be used within a ChatProvider');
-  }
-  return context;
-};
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [transport]);
 
-export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isConnected, setIsConnected] = useState(true);
-  const [isPaired, setIsPaired] = useState(false);
-  const [pairingCode, setPairingCode] = useState<string | null>(null);
-  const [userId] = useState(() => uuidv4());
-  const crypto = useCrypto();
+  // Drop messages whose timer ran out, with their files
+  expireRef.current = () => {
+    const now = Date.now();
+    setMessages(prev => {
+      const expired = prev.filter(message => message.expiresAt !== undefined && message.expiresAt <= now);
+      if (expired.length === 0) {
+        return prev;
+      }
+      expired.forEach(message => {
+        discardFile(message);
+        const entry = outboxRef.current.get(message.id);
+        if (entry) {
+          window.clearTimeout(entry.timer);
+          outboxRef.current.delete(message.id);
+        }
+      });
+      return prev.filter(message => !expired.includes(message));
+    });
+  };
 
   useEffect(() => {
-    // Listen for messages from other tabs
-    broadcastChannel.onmessage = async (event) => {
-      if (event.data.type === 'message' && event.data.roomCode === pairingCode) {
-        try {
-          // Verify message signature if certificate is provided
-          let isVerified = false;
-          if (event.data.certificate && event.data.signature && crypto.verifyMessage) {
-            try {
-              isVerified = await crypto.verifyMessage(
-                event.data.content,
-                event.data.signature,
-                event.data.certificate
-              );
-            } catch (verifyError) {
-              console.warn('Message verification failed:', verifyError);
-              isVerified = false;
-            }
+    const timer = window.setInterval(() => expireRef.current(), EXPIRY_SWEEP_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Messages of a conversation as the vault holds them, files turned back into object URLs
+  const readHistory = async (openVault: Vault, conversation: string): Promise<Message[]> => {
+    const history = await openVault.get<StoredHistory>(historyRecord(conversation));
+    const now = Date.now();
+    const cutoff = openVault.retentionMs === null ? 0 : now - openVault.retentionMs;
+    const restored: Message[] = [];
+
+    for (const message of history?.messages || []) {
+      if (message.timestamp < cutoff || (message.expiresAt !== undefined && message.expiresAt <= now)) {
+        continue;
+      }
+      if (!message.transferId || message.deleted || message.viewed) {
+        restored.push(message);
+        continue;
+      }
+      const file = await openVault.getBlob(attachmentRecord(conversation, message.id));
+      if (file) {
+        storedFilesRef.current.add(message.id);
+      }
+      restored.push({ ...message, content: file ? URL.createObjectURL(file) : '' });
+    }
+    return restored;
+  };
+
+  // Take back the stored session state the live session does not hold yet:
+  // pairwise sessions with members we have none with, and a newer timer
+  const applyStoredSession = (roomCode: string, stored: StoredSession | null) => {
+    if (!stored || stored.roomCode !== roomCode || stored.isGroup !== isGroupRef.current) {
+      return;
+    }
+    rosterRef.current.forEach(member => {
+      const state = stored.ratchets[member.id];
+      const key = sessionKey(roomCode, member.id);
+      if (state && !sessionsRef.current.has(member.id) && !ratchetSessions.has(key)) {
+        ratchetSessions.set(key, state);
+      }
+    });
+    if (stored.timerSetAt > timerSetAtRef.current) {
+      timerSetAtRef.current = stored.timerSetAt;
+      setDisappearAfter(stored.disappearAfter);
+    }
+  };
+
+  // Write a conversation's messages, files and sessions to the vault
+  const writeHistory = async (openVault: Vault, roomCode: string, conversation: string, current: Message[]) => {
+    const cutoff = openVault.retentionMs === null ? 0 : Date.now() - openVault.retentionMs;
+    const kept = current.filter(message => message.timestamp >= cutoff);
+
+    const files = new Set<string>();
+    for (const message of kept) {
+      if (!message.transferId || !message.content || message.deleted || message.viewed) {
+        continue;
+      }
+      files.add(message.id);
+      if (!storedFilesRef.current.has(message.id)) {
+        const file = await (await fetch(message.content)).blob();
+        await openVault.putBlob(attachmentRecord(conversation, message.id), file);
+        storedFilesRef.current.add(message.id);
+      }
+    }
+    for (const messageId of Array.from(storedFilesRef.current)) {
+      if (!files.has(messageId)) {
+        await openVault.delete(attachmentRecord(conversation, messageId));
+        storedFilesRef.current.delete(messageId);
+      }
+    }
+
+    const history: StoredHistory = {
+      roomCode,
+      messages: kept.map(message => (message.transferId ? { ...message, content: '' } : message)),
+      updatedAt: Date.now()
+    };
+    await openVault.put(historyRecord(conversation), history);
+
+    if (rosterRef.current.length > 0) {
+      const ratchets: StoredSession['ratchets'] = {};
+      rosterRef.current.forEach(member => {
+        const state = ratchetSessions.get(sessionKey(roomCode, member.id));
+        if (state) {
+          ratchets[member.id] = state;
+        }
+      });
+      const session: StoredSession = {
+        roomCode,
+        isGroup: isGroupRef.current,
+        isCreator: isCreatorRef.current,
+        members: rosterRef.current,
+        ratchets,
+        disappearAfter,
+        timerSetAt: timerSetAtRef.current,
+        savedAt: Date.now()
+      };
+      await openVault.put(sessionRecord(conversation), session);
+    }
+  };
+
+  // Vault writes go one at a time, in order, and are dropped once it is locked
+  const queueVaultWrite = (openVault: Vault, write: () => Promise<void>) => {
+    vaultWritesRef.current = vaultWritesRef.current
+      .then(() => (openVault.isLocked ? undefined : write()))
+      .catch(error => console.error('Failed to write to the vault:', error));
+  };
+
+  // Bring back what the vault holds for this conversation once it is open
+  // and we know who created the room
+  loadHistoryRef.current = () => {
+    const creator = rosterRef.current.find(member => member.isCreator);
+    if (!vault || !pairingCode || !creator) {
+      vaultRoomRef.current = null;
+      storedFilesRef.current = new Set();
+      return;
+    }
+    const conversation = conversationKey(pairingCode, creator.id);
+    if (vaultRoomRef.current?.vault === vault && vaultRoomRef.current.conversation === conversation) {
+      return;
+    }
+
+    const loading = { vault, roomCode: pairingCode, conversation };
+    vaultRoomRef.current = null;
+    storedFilesRef.current = new Set();
+    Promise.all([readHistory(vault, conversation), vault.get<StoredSession>(sessionRecord(conversation))])
+      .then(([restored, stored]) => {
+        applyStoredSession(loading.roomCode, stored);
+        restored.forEach(message => {
+          if (message.sender === 'peer' && message.senderId) {
+            receivedIdsRef.current.set(message.id, message.senderId);
           }
+        });
+        setMessages(prev => {
+          const present = new Set(prev.map(message => message.id));
+          const earlier = restored.filter(message => !present.has(message.id));
+          restored
+            .filter(message => present.has(message.id) && message.transferId && message.content)
+            .forEach(message => URL.revokeObjectURL(message.content));
+          return earlier.length > 0 ? [...earlier, ...prev] : prev;
+        });
+        vaultRoomRef.current = loading;
+      })
+      .catch(error => console.error('Failed to load history:', error));
+  };
+
+  saveHistoryRef.current = () => {
+    const loaded = vaultRoomRef.current;
+    if (!vault || loaded?.vault !== vault || loaded.roomCode !== pairingCode) {
+      return;
+    }
+    const current = messages;
+    queueVaultWrite(vault, () => writeHistory(vault, loaded.roomCode, loaded.conversation, current));
+  };
+
+  useEffect(() => {
+    loadHistoryRef.current();
+  }, [vault, pairingCode, members]);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => saveHistoryRef.current(), VAULT_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [messages, members, disappearAfter, vault]);
+
+  // Everything needed to carry on in the room after a reload
+  snapshotRef.current = async () => {
+    const { certificate, signingKeyPair } = crypto;
+    if (!isPaired || !pairingCode || !certificate || !signingKeyPair || rosterRef.current.length === 0) {
+      return null;
+    }
+    const roomCode = pairingCode;
+    const signingKey = await SessionResume.exportKeyPair(signingKeyPair);
+    const sessionKeyPair = sessionKeyPairRef.current;
+    const pairingKey = sessionKeyPair ? await SessionResume.exportKeyPair(sessionKeyPair) : null;
+    // Key material is wiped as the page unloads. Past the last await nothing
+    // else runs until the snapshot is serialized, so check here that a save
+    // still in flight does not replace the one taken before with blanks.
+    if (!certificate.id || rosterRef.current.length === 0) {
+      return null;
+    }
+
+    const ratchets: SessionSnapshot['ratchets'] = {};
+    rosterRef.current.forEach(member => {
+      const state = ratchetSessions.get(sessionKey(roomCode, member.id));
+      if (state) {
+        ratchets[member.id] = state;
+      }
+    });
+    const senderKeys: SessionSnapshot['senderKeys'] = {};
+    senderKeysRef.current.forEach((keys, memberId) => {
+      senderKeys[memberId] = keys.map(key => key.serialize());
+    });
+    const replayWindows: SessionSnapshot['replayWindows'] = {};
+    replayWindowsRef.current.forEach((replayWindow, key) => {
+      replayWindows[key] = replayWindow.serialize();
+    });
+
+    return {
+      roomCode,
+      isGroup: isGroupRef.current,
+      isCreator: isCreatorRef.current,
+      certificate,
+      issuer: TrustStore.getInstance().get(certificate.issuer),
+      signingKey,
+      sessionKey: pairingKey,
+      peerSessionKeys: Object.fromEntries(peerSessionKeysRef.current),
+      creatorCert: creatorCertRef.current,
+      shareCode,
+      members: rosterRef.current,
+      acceptedRequests: acceptedRequestsRef.current,
+      ratchets,
+      ownSenderKey: ownSenderKeyRef.current?.serialize() || null,
+      senderKeys,
+      sequences: Object.fromEntries(sequencesRef.current),
+      replayWindows,
+      receivedIds: Object.fromEntries(receivedIdsRef.current),
+      // Object URLs die with the page, so files are left behind
+      messages: messages.map(message => (message.transferId ? { ...message, content: '' } : message)),
+      disappearAfter,
+      timerSetAt: timerSetAtRef.current,
+      savedAt: Date.now()
+    };
+  };
 
-          const newMessage: Message = {
-            id: uuidv4(),
-            content: event.data.content,
-            type: event.data.messageType,
-            timestamp: Date.now(),
-            sender: 'peer',
-            encrypted: true,
-            verified: isVerified,
-            signature: event.data.signature,
-            senderCert: event.data.certificate
-          };
-
-          setMessages(prev => [...prev, newMessage]);
-        } catch (error) {
-          console.error('Failed to process received message:', error);
-          // Still add the message even if verification fails
-          const newMessage: Message = {
-            id: uuidv4(),
-            content: event.data.content,
-            type: event.data.messageType,
-            timestamp: Date.now(),
-            sender: 'peer',
-            encrypted: false,
-            verified: false,
-            signature: event.data.signature,
-            senderCert: event.data.certificate
-          };
-          setMessages(prev => [...prev, newMessage]);
+  // One waiting save covers any number of changes made before it runs
+  saveSnapshotRef.current = () => {
+    if (snapshotPendingRef.current || !SessionResume.isSupported()) {
+      return;
+    }
+    snapshotPendingRef.current = true;
+    snapshotWritesRef.current = snapshotWritesRef.current
+      .then(async () => {
+        snapshotPendingRef.current = false;
+        const snapshot = await snapshotRef.current();
+        if (snapshot) {
+          await SessionResume.save(snapshot);
         }
-      } else if (event.data.type === 'room_closed' && event.data.roomCode === pairingCode) {
-        leaveChat();
-      } else if (event.data.type === 'peer_joined' && event.data.roomCode === pairingCode) {
-        // When someone joins our room, we become paired
-        setIsPaired(true);
+      })
+      .catch(error => console.error('Failed to save session:', error));
+  };
+
+  useEffect(() => {
+    saveSnapshotRef.current();
+  }, [isPaired, pairingCode, messages, members, disappearAfter]);
+
+  // After a reload: put back the identity the room knows us by, and wait
+  // for it to be in place before resuming
+  loadResumeRef.current = () => {
+    if (!SessionResume.isSupported()) {
+      return;
+    }
+    SessionResume.load()
+      .then(async snapshot => {
+        if (!snapshot || pairingCode) {
+          return;
+        }
+        // The CA that issued our certificate went with the old page
+        if (snapshot.issuer && !TrustStore.getInstance().restore(snapshot.issuer)) {
+          console.warn('Saved session\'s issuer conflicts with a trusted key');
+          return;
+        }
+        const signingKeyPair = await SessionResume.importKeyPair(snapshot.signingKey, 'ECDSA');
+        const keyPair = snapshot.sessionKey ? await SessionResume.importKeyPair(snapshot.sessionKey, 'ECDH') : null;
+        pendingResumeRef.current = { snapshot, keyPair };
+        crypto.restoreSession(signingKeyPair, snapshot.certificate, keyPair);
+      })
+      .catch(error => console.error('Failed to load saved session:', error));
+  };
+
+  // Back into the room with the sessions as they were, then tell the
+  // others we are back once the room's envelopes reach us again
+  const resumeSession = async (snapshot: SessionSnapshot, keyPair: KeyPair | null) => {
+    await transport.connect();
+    const room = await transport.resumeRoom(snapshot.roomCode, snapshot.isCreator);
+    if (!room) {
+      console.warn('Saved session cannot be resumed; its room is gone');
+      snapshotWritesRef.current = snapshotWritesRef.current.then(() => SessionResume.clear());
+      return;
+    }
+    const roomCode = snapshot.roomCode;
+
+    sessionKeyPairRef.current = keyPair;
+    isCreatorRef.current = snapshot.isCreator;
+    creatorCertRef.current = snapshot.creatorCert;
+    codeSecretRef.current = snapshot.isCreator && snapshot.shareCode
+      ? PairingPake.parseCode(snapshot.shareCode)?.secret || null
+      : null;
+    isGroupRef.current = snapshot.isGroup;
+    acceptedRequestsRef.current = snapshot.acceptedRequests;
+    sessionsRef.current = new Map();
+    peerSessionKeysRef.current = new Map(Object.entries(snapshot.peerSessionKeys || {}));
+    Object.entries(snapshot.ratchets).forEach(([memberId, state]) => {
+      ratchetSessions.set(sessionKey(roomCode, memberId), state);
+    });
+    ownSenderKeyRef.current = snapshot.ownSenderKey ? SenderKey.restore(snapshot.ownSenderKey) : null;
+    senderKeysRef.current = new Map(Object.entries(snapshot.senderKeys).map(
+      ([memberId, states]) => [memberId, states.map(state => SenderKey.restore(state))]
+    ));
+    sequencesRef.current = new Map(Object.entries(snapshot.sequences));
+    replayWindowsRef.current = new Map(Object.entries(snapshot.replayWindows).map(
+      ([key, state]) => [key, ReplayWindow.restore(state)]
+    ));
+    receivedIdsRef.current = new Map(Object.entries(snapshot.receivedIds));
+    timerSetAtRef.current = snapshot.timerSetAt;
+
+    announceResumeRef.current = async () => {
+      if (!crypto.certificate || !crypto.signingKeyPair) {
+        throw new Error('Digital identity not ready');
       }
+      const token = await SessionResume.createToken(roomCode, crypto.certificate.id, crypto.signingKeyPair.privateKey);
+      await sendControlToAll(roomCode, { type: 'resume', token });
     };
 
+    setIsGroup(snapshot.isGroup);
+    setDisappearAfter(snapshot.disappearAfter);
+    setMessages(snapshot.messages);
+    updateRoster(snapshot.members);
+    setPairingCode(roomCode);
+    setShareCode(snapshot.shareCode || null);
+    setPairingStatus('paired');
+    setIsPaired(true);
+    setResumeNotice({ memberId: snapshot.certificate.id, resumedAt: Date.now() });
+  };
+
+  resumeRef.current = () => {
+    const pending = pendingResumeRef.current;
+    if (!pending || crypto.certificate?.id !== pending.snapshot.certificate.id) {
+      return;
+    }
+    pendingResumeRef.current = null;
+    resumeSession(pending.snapshot, pending.keyPair).catch(error => {
+      console.error('Failed to resume session:', error);
+    });
+  };
+
+  useEffect(() => {
+    if (!crypto.isInitializing && !resumeCheckedRef.current) {
+      resumeCheckedRef.current = true;
+      loadResumeRef.current();
+    }
+  }, [crypto.isInitializing]);
+
+  useEffect(() => {
+    resumeRef.current();
+  }, [crypto.certificate]);
+
+  // Heartbeats for the lifetime of the provider. A closing tab cannot wait
+  // for a signature, so it sends the disconnect notice signed in advance.
+  useEffect(() => {
+    const timer = window.setInterval(() => heartbeatRef.current(), HEARTBEAT_INTERVAL_MS);
+    const handlePageHide = () => {
+      if (signedDisconnectRef.current) {
+        transport.send(signedDisconnectRef.current);
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
     return () => {
-      broadcastChannel.onmessage = null;
+      window.clearInterval(timer);
+      window.removeEventListener('pagehide', handlePageHide);
     };
-  }, [pairingCode, crypto]);
+  }, [transport]);
+
+  // Announce ourselves as soon as we are in a room
+  useEffect(() => {
+    if (isPaired && pairingCode) {
+      heartbeatRef.current();
+      const announceResume = announceResumeRef.current;
+      announceResumeRef.current = null;
+      announceResume?.().catch(error => console.error('Failed to announce resumed session:', error));
+    }
+  }, [isPaired, pairingCode]);
+
+  // WebRTC mode: start a fresh peer connection and sign its offer
+  const publishOffer = async (code: string) => {
+    if (!(transport instanceof WebRtcTransport)) {
+      return;
+    }
+    if (!crypto.certificate || !crypto.signingKeyPair) {
+      throw new Error('Digital identity not ready');
+    }
 
-  const generateCode = async (): Promise<string> => {
+    const offer = await SignedSignaling.create(
+      'offer',
+      code,
+      await transport.createOffer(),
+      crypto.certificate,
+      crypto.signingKeyPair.privateKey
+    );
+    localOfferRef.current = offer.blob;
+    setLocalSignal(offer.text);
+  };
+
+  const generateCode = async (group: boolean = false): Promise<string> => {
     try {
-      // Generate a simple 6-character code
-      const code = Math.random().toString(36).substr(2, 6).toUpperCase();
-      
-      // Save room to localStorage with user certificate info
-      const rooms = getRooms();
-      rooms[code] = {
-        creator: userId,
-        creatorCert: crypto.certificate,
-        created: Date.now(),
-        active: true
-      };
-      saveRooms(rooms);
-      
-      setPairingCode(code);
+      if (group && transport instanceof WebRtcTransport) {
+        throw new Error('Group rooms need a shared transport');
+      }
+
+      if (!crypto.certificate) {
+        throw new Error('Digital identity not ready');
+      }
+
+      // Only the room part is ever sent; the secret keys the PAKE
+      const code = await crypto.generatePairingCode();
+      const { roomCode, secret } = PairingPake.parseCode(code)!;
+      sessionKeyPairRef.current = await crypto.generateKeyPair();
+
+      // Register the room so joiners can find it
+      await transport.createRoom(roomCode, crypto.certificate);
+      codeSecretRef.current = secret;
+      wrongCodesRef.current = [];
+      codeBackoffRef.current = new Map();
+      isCreatorRef.current = true;
+      isGroupRef.current = group;
+      setIsGroup(group);
+      if (crypto.certificate) {
+        updateRoster([{ id: crypto.certificate.id, certificate: crypto.certificate, isCreator: true }]);
+      }
+
+      // Without a shared channel the offer itself is what the joiner needs
+      await publishOffer(code);
+
+      setPairingCode(roomCode);
+      setShareCode(code);
       // Don't set paired yet - wait for someone to join
       setIsPaired(false);
+      setPairingStatus('waiting');
       return code;
     } catch (error) {
       console.error('Failed to generate code:', error);
@@ -134,30 +2166,44 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const joinChat = async (code: string): Promise<boolean> => {
     try {
-      const rooms = getRooms();
-      const room = rooms[code];
-      
-      if (!room || !room.active) {
-        console.log('Room not found or inactive:', code);
+      const parsed = PairingPake.parseCode(code);
+      if (!parsed) {
         return false;
       }
-
-      // Don't allow creator to join their own room
-      if (room.creator === userId) {
-        console.log('Cannot join your own room');
+      const { roomCode, secret } = parsed;
+      const room = await transport.joinRoom(roomCode);
+      if (!room) {
         return false;
       }
+      // Without the creator's certificate there is nothing to check its answer against
+      if (!room.creatorCert) {
+        console.warn('Room has no creator certificate');
+        transport.leaveRoom(roomCode);
+        return false;
+      }
+      isCreatorRef.current = false;
+      creatorCertRef.current = room.creatorCert;
+
+      if (!crypto.certificate || !crypto.signingKeyPair) {
+        throw new Error('Digital identity not ready');
+      }
 
-      setPairingCode(code);
-      setIsPaired(true);
-      
-      // Notify the room creator that someone joined
-      broadcastChannel.postMessage({
-        type: 'peer_joined',
-        roomCode: code,
-        joiner: userId
+      sessionKeyPairRef.current = await crypto.generateKeyPair();
+      const pake = await PairingPake.start('joiner', roomCode, secret, crypto.certificate.id);
+      joinPakeRef.current = pake;
+      outgoingRequestRef.current = null;
+      setPairingCode(roomCode);
+      setShareCode(`${roomCode}-${secret}`);
+      setPairingStatus('requested');
+
+      // The signed request follows once the creator's share arrives
+      transport.send({
+        type: 'pake_init',
+        roomCode,
+        from: crypto.certificate.id,
+        payload: pake.share
       });
-      
+
       return true;
     } catch (error) {
       console.error('Failed to join chat:', error);
@@ -165,76 +2211,635 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // WebRTC mode: take the other side's pasted offer or answer.
+  // Throws with a readable message when the blob does not verify.
+  const submitRemoteSignal = async (text: string): Promise<boolean> => {
+    if (!(transport instanceof WebRtcTransport)) {
+      throw new Error('Manual signaling is only used in WebRTC mode');
+    }
+
+    if (isCreatorRef.current) {
+      const answer = await SignedSignaling.open(text, 'answer', localOfferRef.current || undefined);
+      await transport.acceptAnswer(answer.sdp);
+      return true;
+    }
+
+    if (!crypto.certificate || !crypto.signingKeyPair) {
+      throw new Error('Digital identity not ready');
+    }
+
+    // The offer travels by hand as the code would, so it holds the whole code
+    const offer = await SignedSignaling.open(text, 'offer');
+    const code = PairingPake.parseCode(offer.roomCode);
+    if (!code) {
+      throw new Error('The offer does not hold a pairing code');
+    }
+    const answerSdp = await transport.acceptOffer(offer.sdp, {
+      roomCode: code.roomCode,
+      creatorCert: offer.certificate
+    });
+    const answer = await SignedSignaling.create(
+      'answer',
+      offer.roomCode,
+      answerSdp,
+      crypto.certificate,
+      crypto.signingKeyPair.privateKey,
+      offer
+    );
+    setLocalSignal(answer.text);
+
+    // The pairing request waits in the transport until the channel opens
+    return joinChat(offer.roomCode);
+  };
+
+  // Creator: whether a sender may try a code now, which it may not while it
+  // waits after a wrong code or while the room has had its fill of them
+  const mayTryCode = (senderId: string): boolean => {
+    const now = Date.now();
+    wrongCodesRef.current = wrongCodesRef.current.filter(at => now - at < WRONG_CODE_WINDOW_MS);
+    return wrongCodesRef.current.length < MAX_WRONG_CODES && (codeBackoffRef.current.get(senderId)?.until || 0) <= now;
+  };
+
+  const recordWrongCode = (senderId: string) => {
+    const now = Date.now();
+    wrongCodesRef.current.push(now);
+    // Senders that have long stopped waiting are forgotten
+    codeBackoffRef.current.forEach((backoff, id) => {
+      if (now - backoff.until > WRONG_CODE_WINDOW_MS) {
+        codeBackoffRef.current.delete(id);
+      }
+    });
+    const count = (codeBackoffRef.current.get(senderId)?.count || 0) + 1;
+    codeBackoffRef.current.set(senderId, { count, until: now + WRONG_CODE_BACKOFF_MS * 2 ** (count - 1) });
+  };
+
+  // Creator: sign and send the answer to a join request, admitting the
+  // joiner to the room if accepted
+  const answerRequest = async (roomCode: string, request: PairingRequest, accept: boolean) => {
+    if (!sessionKeyPairRef.current || !crypto.certificate || !crypto.signingKeyPair) {
+      throw new Error('Digital identity not ready');
+    }
+    const pake = joinerPakesRef.current.get(request.certificate.id)?.pake;
+    joinerPakesRef.current.delete(request.certificate.id);
+    if (accept && !pake) {
+      throw new Error('The joiner has not proven they know the code');
+    }
+    // They proved the code and were let in, so their issuer is trusted from now on
+    if (accept) {
+      await TrustStore.getInstance().pin(request.issuer);
+    }
+
+    const response = await PairingHandshake.createResponse(
+      request,
+      await crypto.exportPublicKey(sessionKeyPairRef.current.publicKey),
+      crypto.certificate,
+      crypto.signingKeyPair.privateKey,
+      accept
+    );
+
+    if (accept) {
+      await establishSession(roomCode, request.certificate.id, request.publicKey, true);
+    }
+
+    transport.send({
+      type: 'pairing_response',
+      roomCode,
+      to: request.certificate.id,
+      payload: response,
+      proof: accept ? await pake!.prove(response.signature) : undefined
+    });
+
+    if (accept) {
+      acceptedRequestsRef.current = [...acceptedRequestsRef.current, request];
+      await publishRoster(roomCode);
+    }
+  };
+
+  // Accept or reject the oldest pending pairing request (creator only)
+  const respondToPairing = async (accept: boolean): Promise<void> => {
+    const request = pendingRequestsRef.current[0];
+    if (!request || !pairingCode) {
+      throw new Error('No pairing request to answer');
+    }
+
+    try {
+      await answerRequest(pairingCode, request, accept);
+
+      if (accept) {
+        setIsPaired(true);
+        setPairingStatus('paired');
+      } else if (!isPaired) {
+        setPairingStatus('waiting');
+        // The rejected joiner hangs up, so the next one needs a new offer
+        await publishOffer(shareCode || pairingCode);
+      }
+    } finally {
+      pendingRequestsRef.current = pendingRequestsRef.current.slice(1);
+      const next = pendingRequestsRef.current[0] || null;
+      setIncomingPairingRequest(next);
+      if (next && !isPaired && !accept) {
+        setPairingStatus('approval-needed');
+      }
+    }
+  };
+
+  // Encrypt a message we already show to the room, send it and keep it
+  // until every recipient acknowledges it
+  const dispatchMessage = async (roomCode: string, body: MessageBody): Promise<void> => {
+    const { id } = body;
+    try {
+      if (!crypto.certificate) {
+        throw new Error('Digital identity not ready');
+      }
+      const selfId = crypto.certificate.id;
+      // One-to-one rooms go over the pairwise ratchet, groups use our sender key
+      const recipients = rosterRef.current.filter(member => member.id !== selfId).map(member => member.id);
+      const to = isGroupRef.current ? undefined : recipients[0];
+      if (recipients.length === 0) {
+        throw new Error('Nobody else is in the room');
+      }
+      const plaintext = JSON.stringify(body);
+      const payload = await sealPayload(roomCode, plaintext, to);
+      const envelope: OutboxEntry['envelope'] = {
+        type: 'message',
+        roomCode,
+        id,
+        from: selfId,
+        to,
+        payload
+      };
+
+      setMessages(prev => prev.map(current => (
+        current.id === id ? { ...current, signature: payload.signature, status: 'sent' } : current
+      )));
+
+      // Send the encrypted message to the room and keep it until acknowledged
+      outboxRef.current.set(id, {
+        envelope,
+        plaintext,
+        recipients,
+        delivered: new Set(),
+        read: new Set(),
+        attempts: 1
+      });
+      transport.send(envelope);
+      scheduleResend(id);
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      setMessageStatus(id, 'failed');
+      throw error;
+    }
+  };
+
   const sendMessage = async (
     content: string,
-    type: 'text' | 'image' | 'audio' | 'document'
+    type: 'text' | 'image' | 'audio' | 'document',
+    options: SendOptions = {}
   ): Promise<void> => {
-    if (!isPaired || !pairingCode) {
+    if (!isPaired || !pairingCode || !crypto.certificate) {
       throw new Error('Not connected or paired');
     }
 
-    try {
-      let signature = '';
-      
-      // Sign the message if we have a certificate and signing capability
-      if (crypto.certificate && crypto.signMessage) {
-        try {
-          signature = await crypto.signMessage(content);
-        } catch (signError) {
-          console.warn('Failed to sign message, sending without signature:', signError);
-        }
+    const original = options.replyToId ? messages.find(current => current.id === options.replyToId) : undefined;
+    const replyTo = original && !original.deleted ? ReplyQuotes.create(original) : undefined;
+    const expiresIn = expiryFor(options);
+    const viewOnce = options.viewOnce === true && (type === 'image' || type === 'audio');
+    const id = uuidv4();
+    const message: Message = {
+      id,
+      content,
+      type,
+      timestamp: Date.now(),
+      sender: 'self',
+      senderId: crypto.certificate.id,
+      encrypted: true,
+      verified: true, // Self messages are always verified
+      senderCert: crypto.certificate,
+      status: 'sending',
+      ...(replyTo && { replyTo }),
+      ...(expiresIn && { expiresAt: Date.now() + expiresIn }),
+      ...(viewOnce && { viewOnce })
+    };
+    setMessages(prev => [...prev, message]);
+    await dispatchMessage(pairingCode, {
+      id,
+      type,
+      content,
+      replyTo,
+      ...(expiresIn && { expiresIn }),
+      ...(viewOnce && { viewOnce })
+    });
+  };
+
+  // A message's own timer, or else the conversation's
+  const expiryFor = (options: SendOptions): number | undefined => {
+    const expiresIn = options.expiresIn === undefined ? disappearAfter : options.expiresIn;
+    return isExpiry(expiresIn) ? expiresIn : undefined;
+  };
+
+  const sendFile = async (file: File, sign: boolean = false, options: SendOptions = {}): Promise<void> => {
+    if (!isPaired || !pairingCode || !crypto.certificate) {
+      throw new Error('Not connected or paired');
+    }
+    if (sign && !crypto.signingKeyPair) {
+      throw new Error('Signing key not available');
+    }
+    if (file.size > MAX_TRANSFER_BYTES) {
+      throw new Error('File too large');
+    }
+
+    const roomCode = pairingCode;
+    const id = uuidv4();
+    const transferId = uuidv4();
+    // Signed files always go as documents, so the signature is shown
+    const type: MessageType = file.type.startsWith('image/') && !sign ? 'image' : 'document';
+    const original = options.replyToId ? messages.find(current => current.id === options.replyToId) : undefined;
+    const replyTo = original && !original.deleted ? ReplyQuotes.create(original) : undefined;
+    const expiresIn = expiryFor(options);
+    const viewOnce = options.viewOnce === true && type === 'image';
+    const message: Message = {
+      id,
+      content: URL.createObjectURL(file),
+      type,
+      timestamp: Date.now(),
+      sender: 'self',
+      senderId: crypto.certificate.id,
+      encrypted: true,
+      verified: true,
+      senderCert: crypto.certificate,
+      status: 'sending',
+      transferId,
+      ...(replyTo && { replyTo }),
+      ...(expiresIn && { expiresAt: Date.now() + expiresIn }),
+      ...(viewOnce && { viewOnce })
+    };
+    setMessages(prev => [...prev, message]);
+    setTransfers(prev => ({
+      ...prev,
+      [transferId]: {
+        transferId,
+        messageId: id,
+        direction: 'send',
+        name: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        size: file.size,
+        bytesTransferred: 0,
+        status: 'preparing'
       }
+    }));
 
-      const message: Message = {
-        id: uuidv4(),
-        content,
+    try {
+      const { offer, key } = await FileTransfer.createOffer(transferId, file);
+      const documentSignature = sign && crypto.signingKeyPair
+        ? await DigitalSigner.signDocumentHash(
+            hexToBase64(offer.hash),
+            crypto.signingKeyPair.privateKey,
+            crypto.certificate
+          )
+        : undefined;
+      const selfId = crypto.certificate.id;
+      // Chunks start once a recipient accepts the offer
+      outgoingTransfersRef.current.set(transferId, {
+        file,
+        offer,
+        key,
+        recipients: rosterRef.current.filter(member => member.id !== selfId).map(member => member.id),
+        acked: new Map(),
+        next: new Map(),
+        queue: Promise.resolve(),
+        progress: 0,
+        stalls: 0
+      });
+      updateTransfer(transferId, { status: 'waiting' });
+      setMessages(prev => prev.map(current => (
+        current.id === id
+          ? {
+              ...current,
+              documentInfo: {
+                name: offer.name,
+                mimeType: offer.mimeType,
+                size: offer.size,
+                hash: offer.hash,
+                ...(documentSignature && {
+                  signature: documentSignature,
+                  verification: 'verified' as const,
+                  countersign: pendingCountersigns(selfId)
+                })
+              }
+            }
+          : current
+      )));
+      await dispatchMessage(roomCode, {
+        id,
         type,
-        timestamp: Date.now(),
-        sender: 'self',
-        encrypted: true,
-        verified: true, // Self messages are always verified
-        signature,
-        senderCert: crypto.certificate
-      };
+        content: '',
+        file: offer,
+        documentSignature,
+        replyTo,
+        ...(expiresIn && { expiresIn }),
+        ...(viewOnce && { viewOnce })
+      });
+      watchOutgoing(transferId);
+    } catch (error) {
+      outgoingTransfersRef.current.delete(transferId);
+      updateTransfer(transferId, { status: 'failed', error: 'Could not send the file' });
+      setMessageStatus(id, 'failed');
+      throw error;
+    }
+  };
 
-      setMessages(prev => [...prev, message]);
+  const resumeTransfer = (transferId: string) => {
+    if (!pairingCode) {
+      return;
+    }
+    const outgoing = outgoingTransfersRef.current.get(transferId);
+    if (outgoing) {
+      // Start every recipient again from its last acknowledged chunk
+      outgoing.acked.forEach((acked, memberId) => outgoing.next.set(memberId, acked));
+      outgoing.stalls = 0;
+      updateTransfer(transferId, { status: outgoing.acked.size > 0 ? 'transferring' : 'waiting' });
+      watchOutgoing(transferId);
+      pumpTransfer(pairingCode, transferId);
+      return;
+    }
 
-      // Broadcast message to other tabs
-      broadcastChannel.postMessage({
-        type: 'message',
-        roomCode: pairingCode,
-        content,
-        messageType: type,
-        signature,
-        certificate: crypto.certificate
+    const incoming = incomingTransfersRef.current.get(transferId);
+    if (incoming) {
+      incoming.stalls = 0;
+      updateTransfer(transferId, { status: 'transferring' });
+      watchIncoming(pairingCode, transferId);
+      sendFileAck(pairingCode, incoming, true).catch(error => {
+        console.error('Failed to resume file transfer:', error);
       });
+    }
+  };
 
-    } catch (error) {
-      console.error('Failed to send message:', error);
-      throw error;
+  // Sign the hash a signed document was verified against, or decline to,
+  // and tell everyone else in the room
+  const countersignDocument = async (messageId: string, sign: boolean): Promise<void> => {
+    if (!pairingCode || !crypto.certificate) {
+      throw new Error('Not connected or paired');
+    }
+    const selfId = crypto.certificate.id;
+    const info = messages.find(message => message.id === messageId)?.documentInfo;
+    if (!info?.signature || info.countersign?.[selfId] !== 'pending') {
+      return;
+    }
+
+    let signature: DocumentSignature | null = null;
+    if (sign) {
+      if (info.verification !== 'verified') {
+        throw new Error('Only verified documents can be countersigned');
+      }
+      if (!crypto.signingKeyPair) {
+        throw new Error('Signing key not available');
+      }
+      signature = await DigitalSigner.signDocumentHash(
+        info.signature.documentHash,
+        crypto.signingKeyPair.privateKey,
+        crypto.certificate
+      );
+    }
+
+    setMessages(prev => prev.map(message => (
+      message.id === messageId && message.documentInfo
+        ? { ...message, documentInfo: withCountersign(message.documentInfo, selfId, signature) }
+        : message
+    )));
+    await sendControlToAll(pairingCode, { type: 'countersign', messageId, signature });
+  };
+
+  const editMessage = async (id: string, content: string): Promise<void> => {
+    if (!pairingCode) {
+      throw new Error('Not connected or paired');
+    }
+    const message = messages.find(current => current.id === id);
+    if (!message || message.sender !== 'self' || message.type !== 'text' || message.deleted) {
+      throw new Error('Only your own text messages can be edited');
+    }
+    if (!content.trim() || content === message.content) {
+      return;
+    }
+
+    // Later than the version it replaces, even if the clock went back
+    const timestamp = Math.max(Date.now(), (message.editedAt || message.timestamp) + 1);
+    setMessages(prev => prev.map(current => (current.id === id ? withEdit(current, content, timestamp) : current)));
+    // A retry seals the plaintext again, but a resend repeats the sealed
+    // envelope, so that is sealed again while someone has yet to receive it
+    const entry = outboxRef.current.get(id);
+    if (entry) {
+      entry.plaintext = JSON.stringify({ ...JSON.parse(entry.plaintext), content });
+    }
+    if (entry && awaitingDelivery(entry).length > 0) {
+      entry.envelope = { ...entry.envelope, payload: await sealPayload(pairingCode, entry.plaintext, entry.envelope.to) };
+    }
+    await sendControlToAll(pairingCode, { type: 'edit', messageId: id, content, timestamp });
+  };
+
+  const deleteMessage = async (id: string): Promise<void> => {
+    if (!pairingCode) {
+      throw new Error('Not connected or paired');
+    }
+    const message = messages.find(current => current.id === id);
+    if (!message || message.sender !== 'self') {
+      throw new Error('Only your own messages can be deleted');
+    }
+    if (message.deleted) {
+      return;
+    }
+
+    const entry = outboxRef.current.get(id);
+    if (entry) {
+      window.clearTimeout(entry.timer);
+      outboxRef.current.delete(id);
     }
+    discardFile(message);
+    setMessages(prev => prev.map(current => (current.id === id ? tombstone(current) : current)));
+    await sendControlToAll(pairingCode, { type: 'delete', messageId: id });
+  };
+
+  const toggleReaction = async (messageId: string, emoji: string): Promise<void> => {
+    if (!pairingCode || !crypto.certificate) {
+      throw new Error('Not connected or paired');
+    }
+    const message = messages.find(current => current.id === messageId);
+    if (!message || message.deleted || !isReaction(emoji)) {
+      return;
+    }
+
+    const selfId = crypto.certificate.id;
+    const add = !message.reactions?.[emoji]?.includes(selfId);
+    setMessages(prev => prev.map(current => (
+      current.id === messageId ? withReaction(current, selfId, emoji, add) : current
+    )));
+    await sendControlToAll(pairingCode, { type: 'reaction', messageId, emoji, add });
+  };
+
+  const setDisappearingTimer = async (duration: number | null): Promise<void> => {
+    if (!pairingCode) {
+      throw new Error('Not connected or paired');
+    }
+    if (duration !== null && !isExpiry(duration)) {
+      throw new Error('Unsupported disappearing timer');
+    }
+    const timestamp = Math.max(Date.now(), timerSetAtRef.current + 1);
+    timerSetAtRef.current = timestamp;
+    setDisappearAfter(duration);
+    await sendControlToAll(pairingCode, { type: 'timer', duration, timestamp });
+  };
+
+  const dismissResumeNotice = () => setResumeNotice(null);
+
+  const getSafetyNumber = async (memberId: string): Promise<SafetyNumber | null> => {
+    const member = rosterRef.current.find(current => current.id === memberId);
+    const peerSessionKey = peerSessionKeysRef.current.get(memberId);
+    const ownKeyPair = sessionKeyPairRef.current;
+    if (!pairingCode || !member || !peerSessionKey || !ownKeyPair || !crypto.certificate) {
+      return null;
+    }
+    const ownIdentityKey = ContactBook.identityKey(crypto.certificate);
+    const peerIdentityKey = ContactBook.identityKey(member.certificate);
+    if (!ownIdentityKey || !peerIdentityKey) {
+      return null;
+    }
+    return SafetyNumbers.derive(
+      pairingCode,
+      {
+        identityKey: ownIdentityKey,
+        certificate: crypto.certificate,
+        sessionKey: await crypto.exportPublicKey(ownKeyPair.publicKey)
+      },
+      { identityKey: peerIdentityKey, certificate: member.certificate, sessionKey: peerSessionKey }
+    );
+  };
+
+  const markViewed = async (id: string): Promise<void> => {
+    const message = messages.find(current => current.id === id);
+    if (!pairingCode || !message || message.sender !== 'peer' || !message.viewOnce || message.viewed) {
+      return;
+    }
+    discardFile(message);
+    setMessages(prev => prev.map(current => (current.id === id ? viewedMessage(current) : current)));
+    if (message.senderId && rosterRef.current.some(member => member.id === message.senderId)) {
+      await sendControl(pairingCode, message.senderId, { type: 'viewed', messageId: id });
+    }
+  };
+
+  const retryMessage = (id: string) => {
+    const entry = outboxRef.current.get(id);
+    if (!entry || !pairingCode) {
+      return;
+    }
+    setMessageStatus(id, 'sending');
+    // Sealed afresh: receivers drop the original once its timestamp is too old
+    sealPayload(pairingCode, entry.plaintext, entry.envelope.to)
+      .then(payload => {
+        entry.envelope = { ...entry.envelope, payload };
+        entry.attempts = 1;
+        transport.send(entry.envelope);
+        setMessageStatus(id, 'sent');
+        scheduleResend(id);
+      })
+      .catch(error => {
+        console.error('Failed to resend message:', error);
+        setMessageStatus(id, 'failed');
+      });
   };
 
   const leaveChat = () => {
     if (pairingCode) {
-      const rooms = getRooms();
-      if (rooms[pairingCode]) {
-        if (rooms[pairingCode].creator === userId) {
-          // If we're the creator, mark room as inactive
-          rooms[pairingCode].active = false;
-          saveRooms(rooms);
-          
-          // Notify other tabs that the room is closed
-          broadcastChannel.postMessage({
-            type: 'room_closed',
-            roomCode: pairingCode
-          });
-        }
+      const roomCode = pairingCode;
+      if (signedDisconnectRef.current) {
+        transport.send(signedDisconnectRef.current);
+      }
+      const sessionIds = rosterRef.current.map(member => member.id);
+      // The history stays in the vault, but the sessions are over
+      const loaded = vaultRoomRef.current;
+      if (vault && loaded?.vault === vault && loaded.roomCode === roomCode) {
+        queueVaultWrite(vault, () => vault.delete(sessionRecord(loaded.conversation)));
+      }
+      const closeRoom = () => {
+        transport.leaveRoom(roomCode);
+        sessionIds.forEach(memberId => ratchetSessions.delete(sessionKey(roomCode, memberId)));
+      };
+
+      if (isCreatorRef.current) {
+        // Tell the members the room is closed, signed so no one else can
+        const { certificate, signingKeyPair } = crypto;
+        const notice = certificate && signingKeyPair
+          ? PresenceSigner.createRoomClosed(roomCode, Date.now(), certificate, signingKeyPair.privateKey)
+              .then(payload => transport.send({ type: 'room_closed', roomCode, from: certificate.id, payload }))
+          : Promise.resolve();
+        notice
+          .catch(error => console.error('Failed to announce closing the room:', error))
+          .finally(closeRoom);
+      } else {
+        // Tell the creator first so the others are re-keyed without us
+        const creator = rosterRef.current.find(member => member.isCreator);
+        const notice = creator && isPaired
+          ? sendControl(roomCode, creator.id, { type: 'leave' })
+          : Promise.resolve();
+        notice
+          .catch(error => console.error('Failed to announce leaving:', error))
+          .finally(closeRoom);
       }
     }
+    outgoingTransfersRef.current.forEach(transfer => window.clearTimeout(transfer.timer));
+    incomingTransfersRef.current.forEach(transfer => window.clearTimeout(transfer.timer));
+    outgoingTransfersRef.current = new Map();
+    incomingTransfersRef.current = new Map();
+    messages.forEach(message => {
+      if (message.transferId && message.content) {
+        URL.revokeObjectURL(message.content);
+      }
+    });
+    presenceRef.current = new Map();
+    typingRef.current = false;
+    signedDisconnectRef.current = null;
+    outboxRef.current.forEach(entry => window.clearTimeout(entry.timer));
+    outboxRef.current = new Map();
+    receivedIdsRef.current = new Map();
+    timerSetAtRef.current = 0;
+    sequencesRef.current = new Map();
+    replayWindowsRef.current = new Map();
+    unreadRef.current = new Map();
+    sessionKeyPairRef.current = null;
+    sessionsRef.current = new Map();
+    peerSessionKeysRef.current = new Map();
+    ownSenderKeyRef.current = null;
+    senderKeysRef.current = new Map();
+    rosterRef.current = [];
+    isGroupRef.current = false;
+    outgoingRequestRef.current = null;
+    joinPakeRef.current = null;
+    codeSecretRef.current = null;
+    joinerPakesRef.current = new Map();
+    wrongCodesRef.current = [];
+    codeBackoffRef.current = new Map();
+    pendingRequestsRef.current = [];
+    acceptedRequestsRef.current = [];
+    isCreatorRef.current = false;
+    creatorCertRef.current = null;
+    localOfferRef.current = null;
+    setLocalSignal(null);
+    crypto.endSession();
+    snapshotWritesRef.current = snapshotWritesRef.current
+      .then(() => SessionResume.clear())
+      .catch(error => console.error('Failed to clear saved session:', error));
+    setResumeNotice(null);
     setMessages([]);
+    setTransfers({});
+    setDisappearAfter(null);
+    setPresence({});
+    setTypingMembers([]);
+    setIsConnected(false);
+    setMembers([]);
+    setIsGroup(false);
     setIsPaired(false);
     setPairingCode(null);
+    setShareCode(null);
+    setPairingStatus('idle');
+    setIncomingPairingRequest(null);
   };
 
   return (
@@ -242,9 +2847,35 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       value={{
         messages,
         isConnected,
+        presence,
+        typingMembers,
+        setTyping,
         isPaired,
         pairingCode,
+        shareCode,
+        pairingStatus,
+        isGroup,
+        members,
+        incomingPairingRequest,
+        respondToPairing,
+        manualSignaling: transport instanceof WebRtcTransport,
+        localSignal,
+        submitRemoteSignal,
         sendMessage,
+        retryMessage,
+        sendFile,
+        transfers,
+        resumeTransfer,
+        countersignDocument,
+        editMessage,
+        deleteMessage,
+        toggleReaction,
+        disappearAfter,
+        setDisappearingTimer,
+        markViewed,
+        resumeNotice,
+        dismissResumeNotice,
+        getSafetyNumber,
         generateCode,
         joinChat,
         leaveChat
@@ -253,4 +2884,4 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       {children}
     </ChatContext.Provider>
   );
-};
\ No newline at end of file
+};
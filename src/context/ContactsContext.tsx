@@ -0,0 +1,114 @@
+import React, { useState, ReactNode } from 'react';
+import { Certificate, Contact } from '../types';
+import { ContactBook } from '../utils/contacts';
+import { IdentityKeys } from '../utils/identity';
+import { ContactsContext } from './useContacts';
+
+export const ContactsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [contacts, setContacts] = useState<Contact[]>(() => ContactBook.load());
+
+  const update = (next: Contact[]) => {
+    ContactBook.save(next);
+    setContacts(next);
+  };
+
+  const findContact = (certificate: Certificate): Contact | null => {
+    const identityKey = ContactBook.identityKey(certificate);
+    return (identityKey && contacts.find(contact => contact.identityKey === identityKey)) || null;
+  };
+
+  const displayName = (certificate: Certificate): string =>
+    findContact(certificate)?.nickname || ContactBook.subjectName(certificate);
+
+  // Names are chosen freely, so a known name on an unknown key may be a new
+  // device or someone passing themselves off as the contact
+  const keyChangeFor = (certificate: Certificate): Contact | null => {
+    if (findContact(certificate)) {
+      return null;
+    }
+    const name = ContactBook.subjectName(certificate).toLowerCase();
+    return contacts.find(contact => contact.name.toLowerCase() === name || contact.nickname.toLowerCase() === name) || null;
+  };
+
+  const isVerified = (certificate: Certificate): boolean => !!findContact(certificate)?.verified;
+
+  // Save the identity behind a certificate under a nickname. Passing the
+  // contact it replaces moves that contact over to the new key.
+  const saveContact = async (certificate: Certificate, nickname: string, replacing?: Contact): Promise<Contact> => {
+    const identityKey = ContactBook.identityKey(certificate);
+    if (!identityKey) {
+      throw new Error('Their identity key is not known');
+    }
+    if (!nickname.trim()) {
+      throw new Error('A nickname is required');
+    }
+    const contact: Contact = {
+      fingerprint: await IdentityKeys.fingerprint(identityKey),
+      identityKey,
+      nickname: nickname.trim(),
+      name: ContactBook.subjectName(certificate),
+      addedAt: Date.now()
+    };
+    update([
+      ...contacts.filter(existing => existing.identityKey !== identityKey && existing.fingerprint !== replacing?.fingerprint),
+      contact
+    ]);
+    return contact;
+  };
+
+  const markVerified = async (certificate: Certificate, verified: boolean): Promise<void> => {
+    const contact = findContact(certificate) || (verified
+      ? await saveContact(certificate, ContactBook.subjectName(certificate))
+      : null);
+    if (!contact) {
+      return;
+    }
+    // Read the book again: saving above has not reached this render's state
+    update([
+      ...ContactBook.load().filter(existing => existing.fingerprint !== contact.fingerprint),
+      { ...contact, verified, verifiedAt: verified ? Date.now() : undefined }
+    ]);
+  };
+
+  const renameContact = (fingerprint: string, nickname: string) => {
+    if (!nickname.trim()) {
+      throw new Error('A nickname is required');
+    }
+    update(contacts.map(contact => (contact.fingerprint === fingerprint ? { ...contact, nickname: nickname.trim() } : contact)));
+  };
+
+  const removeContact = (fingerprint: string) => {
+    update(contacts.filter(contact => contact.fingerprint !== fingerprint));
+  };
+
+  const exportContacts = (): string => ContactBook.export(contacts);
+
+  // Contacts already in the book keep their nickname
+  const importContacts = async (text: string): Promise<number> => {
+    const incoming = (await ContactBook.parse(text)).filter(
+      contact => !contacts.some(existing => existing.identityKey === contact.identityKey)
+    );
+    update([...contacts, ...incoming]);
+    return incoming.length;
+  };
+
+  return (
+    <ContactsContext.Provider
+      value={{
+        contacts,
+        findContact,
+        displayName,
+        keyChangeFor,
+        isVerified,
+        markVerified,
+        saveContact,
+        renameContact,
+        removeContact,
+        exportContacts,
+        importContacts
+      }}
+    >
+      {children}
+    </ContactsContext.Provider>
+  );
+};
@@ -1,40 +1,15 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { KeyPair, EncryptedData, SigningKeyPair, Certificate } from '../types';
+import React, { useState, ReactNode, useEffect, useRef } from 'react';
+import { KeyPair, EncryptedData, SigningKeyPair, Certificate, Identity } from '../types';
 import { CertificateManager } from '../utils/certificates';
+import { IdentityKeys } from '../utils/identity';
+import { PairingPake } from '../utils/pake';
 import { DigitalSigner } from '../utils/signing';
-import { secureWipe } from '../utils/encoding';
-
-interface CryptoContextType {
-  keyPair: KeyPair | null;
-  signingKeyPair: SigningKeyPair | null;
-  certificate: Certificate | null;
-  sharedSecret: CryptoKey | null;
-  isInitializing: boolean;
-  generateKeyPair: () => Promise<KeyPair>;
-  generateSigningKeyPair: () => Promise<SigningKeyPair>;
-  generateCertificate: (subject: string) => Promise<Certificate>;
-  generatePairingCode: () => Promise<string>;
-  encryptMessage: (message: string) => Promise<EncryptedData>;
-  decryptMessage: (encryptedData: EncryptedData, messageIndex?: number) => Promise<string>;
-  signMessage: (message: string) => Promise<string>;
-  verifyMessage: (message: string, signature: string, senderCert: Certificate) => Promise<boolean>;
-  exportPublicKey: (key: CryptoKey) => Promise<string>;
-  importPublicKey: (keyData: string) => Promise<CryptoKey>;
-  verifyCertificate: (cert: Certificate) => Promise<boolean>;
-  reset: () => void;
-}
-
-const CryptoContext = createContext<CryptoContextType | null>(null);
-
-export const useCrypto = () => {
-  const context = useContext(CryptoContext);
-  if (!context) {
-    throw new Error('useCrypto must be used within a CryptoProvider');
-  }
-  return context;
-};
+import { ForwardSecrecy } from '../utils/forwardSecrecy';
+import { base64ToArrayBuffer, secureWipe } from '../utils/encoding';
+import { CryptoContext } from './useCrypto';
 
 export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [identity, setIdentity] = useState<Identity | null>(null);
   const [keyPair, setKeyPair] = useState<KeyPair | null>(null);
   const [signingKeyPair, setSigningKeyPair] = useState<SigningKeyPair | null>(null);
   const [certificate, setCertificate] = useState<Certificate | null>(null);
@@ -42,39 +17,56 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [isInitializing, setIsInitializing] = useState(true);
   const [certificateManager] = useState(() => CertificateManager.getInstance());
   const [sessionStartTime] = useState(Date.now());
+  const initializeRef = useRef<() => Promise<void>>(async () => undefined);
 
-  // Initialize crypto on mount
-  useEffect(() => {
-    const initializeCrypto = async () => {
+  // Initialize crypto on mount, through a ref so it sees this render's helpers
+  initializeRef.current = async () => {
+    try {
+      setIsInitializing(true);
+
+      // The long-term identity signs this session's certificate. Without
+      // it the session falls back to a CA of its own.
       try {
-        setIsInitializing(true);
-        
-        // Generate signing key pair first
-        const newSigningKeyPair = await generateSigningKeyPair();
-        
-        // Check if we have a saved username and generate certificate
-        const savedUsername = localStorage.getItem('cipher-username');
-        if (savedUsername && newSigningKeyPair) {
-          await generateCertificate(savedUsername);
-        }
-        
+        const loaded = await IdentityKeys.load();
+        await certificateManager.useIdentity(loaded);
+        setIdentity(loaded);
       } catch (error) {
-        console.error('Failed to initialize crypto:', error);
-      } finally {
-        setIsInitializing(false);
+        console.error('Failed to load identity:', error);
       }
-    };
+      
+      // Generate signing key pair first
+      const newSigningKeyPair = await generateSigningKeyPair();
+      
+      // Check if we have a saved username and generate certificate
+      const savedUsername = localStorage.getItem('cipher-username');
+      if (savedUsername && newSigningKeyPair) {
+        await generateCertificate(savedUsername);
+      }
+      
+    } catch (error) {
+      console.error('Failed to initialize crypto:', error);
+    } finally {
+      setIsInitializing(false);
+    }
+  };
 
-    initializeCrypto();
+  useEffect(() => {
+    initializeRef.current();
   }, []);
 
+  // Latest key material, read by the unload cleanup. Wiping from a
+  // dependency-driven effect would null out keys that are still in use
+  // whenever any one of them changes.
+  const keyMaterialRef = useRef({ keyPair, signingKeyPair, certificate });
+  keyMaterialRef.current = { keyPair, signingKeyPair, certificate };
+
   // Cleanup on unmount or page unload
   useEffect(() => {
     const cleanup = () => {
       try {
-        secureWipe(keyPair);
-        secureWipe(signingKeyPair);
-        secureWipe(certificate);
+        secureWipe(keyMaterialRef.current.keyPair);
+        secureWipe(keyMaterialRef.current.signingKeyPair);
+        secureWipe(keyMaterialRef.current.certificate);
         certificateManager.reset();
       } catch (error) {
         console.warn('Cleanup error:', error);
@@ -89,7 +81,7 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
       window.removeEventListener('beforeunload', cleanup);
       window.removeEventListener('unload', cleanup);
     };
-  }, [keyPair, signingKeyPair, certificate, certificateManager]);
+  }, [certificateManager]);
 
   // Generate ECDH key pair for encryption
   const generateKeyPair = async (): Promise<KeyPair> => {
@@ -99,8 +91,9 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
           name: 'ECDH',
           namedCurve: 'P-256'
         },
-        false,
-        ['deriveKey']
+        // Extractable so the Double Ratchet can serialize it as its first ratchet key
+        true,
+        ['deriveKey', 'deriveBits']
       );
 
       const pair = {
@@ -138,17 +131,16 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
 
     try {
       const uniqueSubject = `${subject}-${Date.now().toString(36)}`;
-      const sessionDuration = 24 * 60 * 60 * 1000; // 24 hours max
-      
+
+      // Valid for 24 hours from the start of the session. The dates are
+      // signed, so they are set at issue rather than changed afterwards.
       const cert = await certificateManager.issueCertificate(
         uniqueSubject,
         currentSigningKeyPair.publicKey,
-        1
+        1,
+        sessionStartTime
       );
-      
-      cert.issuedAt = sessionStartTime;
-      cert.expiresAt = sessionStartTime + sessionDuration;
-      
+
       setCertificate(cert);
       return cert;
     } catch (error) {
@@ -157,45 +149,88 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  // Generate a secure random pairing code
+  // Generate a secure random pairing code: a room to look up, then a secret
+  // that is only ever used as the PAKE password
   const generatePairingCode = async (): Promise<string> => {
     try {
-      const array = new Uint8Array(4);
-      window.crypto.getRandomValues(array);
-      const code = Array.from(array)
-        .map(byte => byte.toString(16).padStart(2, '0'))
-        .join('')
-        .toUpperCase()
-        .slice(0, 6);
-      return code;
+      return PairingPake.generateCode();
     } catch (error) {
       console.error('Failed to generate pairing code:', error);
       throw new Error('Pairing code generation failed');
     }
   };
 
-  // Simple encryption for messages (fallback)
-  const encryptMessage = async (message: string): Promise<EncryptedData> => {
+  // Derive the session secret from our ECDH private key and the peer's public key
+  const deriveSharedSecret = async (
+    peerPublicKey: string,
+    privateKey?: CryptoKey
+  ): Promise<CryptoKey> => {
+    const ownPrivateKey = privateKey || keyPair?.privateKey;
+    if (!ownPrivateKey) {
+      throw new Error('Key pair not generated');
+    }
+
     try {
-      const key = await window.crypto.subtle.generateKey(
-        { name: 'AES-GCM', length: 256 },
+      const peerKey = await window.crypto.subtle.importKey(
+        'raw',
+        base64ToArrayBuffer(peerPublicKey),
+        {
+          name: 'ECDH',
+          namedCurve: 'P-256'
+        },
         false,
-        ['encrypt']
+        []
       );
 
-      const encoder = new TextEncoder();
-      const data = encoder.encode(message);
+      const secretBits = await window.crypto.subtle.deriveBits(
+        {
+          name: 'ECDH',
+          public: peerKey
+        },
+        ownPrivateKey,
+        256
+      );
+
+      // Keep the raw secret as non-extractable HKDF material for per-message
+      // keys and the Double Ratchet root key
+      const secret = await window.crypto.subtle.importKey(
+        'raw',
+        secretBits,
+        'HKDF',
+        false,
+        ['deriveKey', 'deriveBits']
+      );
+
+      setSharedSecret(secret);
+      return secret;
+    } catch (error) {
+      console.error('Failed to derive shared secret:', error);
+      throw new Error('Shared secret derivation failed');
+    }
+  };
+
+  // Encrypt a message under a fresh HKDF-derived key
+  const encryptMessage = async (message: string, key?: CryptoKey): Promise<EncryptedData> => {
+    const secret = key || sharedSecret;
+    if (!secret) {
+      throw new Error('Secure session not established');
+    }
+
+    try {
+      const salt = window.crypto.getRandomValues(new Uint8Array(32));
+      const messageKey = await ForwardSecrecy.deriveMessageKey(secret, salt);
       const iv = window.crypto.getRandomValues(new Uint8Array(12));
 
       const encryptedData = await window.crypto.subtle.encrypt(
         { name: 'AES-GCM', iv },
-        key,
-        data
+        messageKey,
+        new TextEncoder().encode(message)
       );
 
       return {
         data: new Uint8Array(encryptedData),
-        iv
+        iv,
+        salt
       };
     } catch (error) {
       console.error('Failed to encrypt message:', error);
@@ -203,10 +238,25 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  // Simple decryption for messages (fallback)
-  const decryptMessage = async (encryptedData: EncryptedData): Promise<string> => {
+  // Decrypt a message encrypted by the peer with encryptMessage
+  const decryptMessage = async (encryptedData: EncryptedData, key?: CryptoKey): Promise<string> => {
+    const secret = key || sharedSecret;
+    if (!secret) {
+      throw new Error('Secure session not established');
+    }
+    if (!encryptedData.salt) {
+      throw new Error('Salt required for message decryption');
+    }
+
     try {
-      return "Decrypted message";
+      const messageKey = await ForwardSecrecy.deriveMessageKey(secret, encryptedData.salt);
+      const decryptedData = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: encryptedData.iv },
+        messageKey,
+        encryptedData.data
+      );
+
+      return new TextDecoder().decode(decryptedData);
     } catch (error) {
       console.error('Failed to decrypt message:', error);
       throw new Error('Message decryption failed');
@@ -282,17 +332,35 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
   };
 
   // Verify certificate
-  const verifyCertificate = async (cert: Certificate): Promise<boolean> => {
+  const verifyCertificate = async (cert: Certificate, at: number = Date.now()): Promise<boolean> => {
     try {
-      const isValid = await certificateManager.verifyCertificate(cert);
-      const isSessionValid = Date.now() < cert.expiresAt;
-      return isValid && isSessionValid;
+      return await certificateManager.verifyCertificate(cert, undefined, at);
     } catch (error) {
       console.error('Certificate verification failed:', error);
       return false;
     }
   };
 
+  // Drop the per-chat ECDH key pair and session secret, keeping the identity
+  const endSession = () => {
+    secureWipe(keyPair);
+    setKeyPair(null);
+    setSharedSecret(null);
+  };
+
+  // Put back the identity and pairing key of a session saved before a
+  // reload, in place of the ones generated for this page
+  const restoreSession = (
+    restoredSigningKeyPair: SigningKeyPair,
+    restoredCertificate: Certificate,
+    restoredKeyPair: KeyPair | null
+  ) => {
+    secureWipe(signingKeyPair);
+    setSigningKeyPair(restoredSigningKeyPair);
+    setCertificate(restoredCertificate);
+    setKeyPair(restoredKeyPair);
+  };
+
   // Reset the crypto context
   const reset = () => {
     try {
@@ -305,6 +373,10 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
       setCertificate(null);
       setSharedSecret(null);
       certificateManager.reset();
+      // The identity outlives the session; the next certificate chains to it too
+      if (identity) {
+        certificateManager.useIdentity(identity).catch(error => console.warn('Failed to reuse identity:', error));
+      }
     } catch (error) {
       console.warn('Reset error:', error);
     }
@@ -313,6 +385,7 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
   return (
     <CryptoContext.Provider
       value={{
+        identity,
         keyPair,
         signingKeyPair,
         certificate,
@@ -322,6 +395,7 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
         generateSigningKeyPair,
         generateCertificate,
         generatePairingCode,
+        deriveSharedSecret,
         encryptMessage,
         decryptMessage,
         signMessage,
@@ -329,6 +403,8 @@ export const CryptoProvider: React.FC<{ children: ReactNode }> = ({ children })
         exportPublicKey,
         importPublicKey,
         verifyCertificate,
+        endSession,
+        restoreSession,
         reset
       }}
     >
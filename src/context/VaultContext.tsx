@@ -0,0 +1,76 @@
+import React, { useState, ReactNode, useEffect, useRef } from 'react';
+import { VaultStatus } from '../types';
+import { Vault } from '../utils/vault';
+import { VaultContext } from './useVault';
+
+export const VaultProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [isSupported] = useState(() => Vault.isSupported());
+  const [status, setStatus] = useState<VaultStatus>(() => (isSupported && Vault.exists() ? 'locked' : 'off'));
+  const [vault, setVault] = useState<Vault | null>(null);
+  const [retentionMs, setRetentionMs] = useState<number | null>(null);
+
+  // Lock on unmount so the key does not outlive the provider
+  const vaultRef = useRef(vault);
+  vaultRef.current = vault;
+  useEffect(() => () => vaultRef.current?.lock(), []);
+
+  const open = (opened: Vault) => {
+    vault?.lock();
+    setVault(opened);
+    setRetentionMs(opened.retentionMs);
+    setStatus('unlocked');
+  };
+
+  // Set up a vault; history is only kept from here on
+  const createVault = async (passphrase: string, retention: number | null): Promise<void> => {
+    if (!isSupported) {
+      throw new Error('This browser cannot store history');
+    }
+    open(await Vault.create(passphrase, retention));
+  };
+
+  const unlockVault = async (passphrase: string): Promise<void> => {
+    open(await Vault.unlock(passphrase));
+  };
+
+  const lockVault = () => {
+    vault?.lock();
+    setVault(null);
+    setStatus(Vault.exists() ? 'locked' : 'off');
+  };
+
+  // Delete all stored history and go back to ephemeral mode
+  const wipeVault = async (): Promise<void> => {
+    vault?.lock();
+    setVault(null);
+    await Vault.wipe();
+    setRetentionMs(null);
+    setStatus('off');
+  };
+
+  const setRetention = async (retention: number | null): Promise<void> => {
+    if (!vault) {
+      throw new Error('Vault is locked');
+    }
+    await vault.setRetention(retention);
+    setRetentionMs(retention);
+  };
+
+  return (
+    <VaultContext.Provider
+      value={{
+        status,
+        isSupported,
+        vault,
+        retentionMs,
+        createVault,
+        unlockVault,
+        lockVault,
+        wipeVault,
+        setRetention
+      }}
+    >
+      {children}
+    </VaultContext.Provider>
+  );
+};
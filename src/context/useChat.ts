@@ -0,0 +1,58 @@
+import { createContext, useContext } from 'react';
+import {
+  FileTransferProgress,
+  Message,
+  PairingRequest,
+  PairingStatus,
+  PresenceState,
+  RoomMember,
+  SafetyNumber,
+  SendOptions
+} from '../types';
+
+export interface ChatContextType {
+  messages: Message[];
+  isConnected: boolean; // Someone else in the room is online or away
+  presence: Record<string, PresenceState>; // By member id
+  typingMembers: string[]; // Ids of members who are typing
+  setTyping: (typing: boolean) => void;
+  isPaired: boolean;
+  pairingCode: string | null; // The room, as the transport knows it
+  shareCode: string | null; // The whole code people pass on: the room, then the secret only the PAKE uses
+  pairingStatus: PairingStatus;
+  isGroup: boolean;
+  members: RoomMember[]; // Everyone in the room, ourselves included
+  incomingPairingRequest: PairingRequest | null;
+  respondToPairing: (accept: boolean) => Promise<void>;
+  manualSignaling: boolean; // Offer/answer must be carried between browsers by hand
+  localSignal: string | null; // Our signed offer (creator) or answer (joiner) to hand over
+  submitRemoteSignal: (text: string) => Promise<boolean>;
+  sendMessage: (content: string, type: 'text' | 'image' | 'audio' | 'document', options?: SendOptions) => Promise<void>;
+  retryMessage: (id: string) => void; // Resend a message that failed to deliver
+  sendFile: (file: File, sign?: boolean, options?: SendOptions) => Promise<void>; // Send a file of any size in encrypted chunks, optionally signed
+  transfers: Record<string, FileTransferProgress>; // By transfer id
+  resumeTransfer: (transferId: string) => void; // Pick up a paused transfer where it stopped
+  countersignDocument: (messageId: string, sign: boolean) => Promise<void>; // Countersign or decline a signed document
+  editMessage: (id: string, content: string) => Promise<void>; // Replace the text of one of our messages for everyone
+  deleteMessage: (id: string) => Promise<void>; // Delete one of our messages for everyone
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>; // Add our reaction, or take it back
+  disappearAfter: number | null; // Conversation's disappearing timer in milliseconds, or null when off
+  setDisappearingTimer: (duration: number | null) => Promise<void>; // Change it for everyone
+  markViewed: (id: string) => Promise<void>; // Wipe a view-once message we have opened
+  resumeNotice: { memberId: string; resumedAt: number } | null; // Who last picked the session back up after a reload, ourselves included
+  dismissResumeNotice: () => void;
+  getSafetyNumber: (memberId: string) => Promise<SafetyNumber | null>; // For our pairwise session with a member, null until it is set up
+  generateCode: (group?: boolean) => Promise<string>;
+  joinChat: (code: string) => Promise<boolean>;
+  leaveChat: () => void;
+}
+
+export const ChatContext = createContext<ChatContextType | null>(null);
+
+export const useChat = () => {
+  const context = useContext(ChatContext);
+  if (!context) {
+    throw new Error('useChat must be used within a ChatProvider');
+  }
+  return context;
+};
@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import { Certificate, Contact } from '../types';
+
+export interface ContactsContextType {
+  contacts: Contact[];
+  findContact: (certificate: Certificate) => Contact | null; // By the identity key behind the certificate
+  displayName: (certificate: Certificate) => string; // Nickname for a contact, otherwise the name they chose
+  keyChangeFor: (certificate: Certificate) => Contact | null; // A contact whose name this certificate uses with another key
+  isVerified: (certificate: Certificate) => boolean; // Its identity belongs to a contact whose safety number was confirmed
+  markVerified: (certificate: Certificate, verified: boolean) => Promise<void>; // Saves them as a contact if need be
+  saveContact: (certificate: Certificate, nickname: string, replacing?: Contact) => Promise<Contact>;
+  renameContact: (fingerprint: string, nickname: string) => void;
+  removeContact: (fingerprint: string) => void;
+  exportContacts: () => string;
+  importContacts: (text: string) => Promise<number>; // How many were new
+}
+
+export const ContactsContext = createContext<ContactsContextType | null>(null);
+
+export const useContacts = () => {
+  const context = useContext(ContactsContext);
+  if (!context) {
+    throw new Error('useContacts must be used within a ContactsProvider');
+  }
+  return context;
+};
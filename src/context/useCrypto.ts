@@ -0,0 +1,36 @@
+import { createContext, useContext } from 'react';
+import { Certificate, EncryptedData, Identity, KeyPair, SigningKeyPair } from '../types';
+
+export interface CryptoContextType {
+  identity: Identity | null; // Long-term keys that issue each session's certificate
+  keyPair: KeyPair | null;
+  signingKeyPair: SigningKeyPair | null;
+  certificate: Certificate | null;
+  sharedSecret: CryptoKey | null;
+  isInitializing: boolean;
+  generateKeyPair: () => Promise<KeyPair>;
+  generateSigningKeyPair: () => Promise<SigningKeyPair>;
+  generateCertificate: (subject: string) => Promise<Certificate>;
+  generatePairingCode: () => Promise<string>;
+  deriveSharedSecret: (peerPublicKey: string, privateKey?: CryptoKey) => Promise<CryptoKey>;
+  encryptMessage: (message: string, key?: CryptoKey) => Promise<EncryptedData>;
+  decryptMessage: (encryptedData: EncryptedData, key?: CryptoKey) => Promise<string>;
+  signMessage: (message: string) => Promise<string>;
+  verifyMessage: (message: string, signature: string, senderCert: Certificate) => Promise<boolean>;
+  exportPublicKey: (key: CryptoKey) => Promise<string>;
+  importPublicKey: (keyData: string) => Promise<CryptoKey>;
+  verifyCertificate: (cert: Certificate, at?: number) => Promise<boolean>; // At a past time, such as when a document was signed
+  endSession: () => void;
+  restoreSession: (signingKeyPair: SigningKeyPair, certificate: Certificate, keyPair: KeyPair | null) => void; // Take back a session's keys after a reload
+  reset: () => void;
+}
+
+export const CryptoContext = createContext<CryptoContextType | null>(null);
+
+export const useCrypto = () => {
+  const context = useContext(CryptoContext);
+  if (!context) {
+    throw new Error('useCrypto must be used within a CryptoProvider');
+  }
+  return context;
+};
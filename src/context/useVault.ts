@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import { VaultStatus } from '../types';
+import { Vault } from '../utils/vault';
+
+export interface VaultContextType {
+  status: VaultStatus;
+  isSupported: boolean;
+  vault: Vault | null; // Only while unlocked
+  retentionMs: number | null; // How long history is kept, or null until wiped
+  createVault: (passphrase: string, retentionMs: number | null) => Promise<void>;
+  unlockVault: (passphrase: string) => Promise<void>; // Throws on a wrong passphrase
+  lockVault: () => void;
+  wipeVault: () => Promise<void>;
+  setRetention: (retentionMs: number | null) => Promise<void>;
+}
+
+export const VaultContext = createContext<VaultContextType | null>(null);
+
+export const useVault = () => {
+  const context = useContext(VaultContext);
+  if (!context) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+};
@@ -1,26 +1,82 @@
 // Message types
 export type MessageType = 'text' | 'image' | 'audio' | 'document';
 
+// Delivery state of our own messages
+export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
 export interface Message {
   id: string;
   type: MessageType;
   content: string; // For text messages or data URLs for media
   timestamp: number;
   sender: 'self' | 'peer';
+  senderId?: string; // Room member id (certificate id) of the sender
   encrypted: boolean;
   verified: boolean;
   signature?: string; // ECDSA signature
   senderCert?: Certificate; // Sender's certificate
   documentInfo?: DocumentInfo; // For document messages
+  status?: MessageStatus; // Own messages only
+  missedBefore?: number; // Messages from this sender skipped just before this one
+  late?: boolean; // Arrived after a later message from the same sender
+  transferId?: string; // Sent as a chunked file transfer; content is set once it completes
+  editedAt?: number; // Sender's time of the latest edit
+  revisions?: MessageRevision[]; // Earlier versions of an edited message, oldest first
+  deleted?: boolean; // Deleted for everyone; only a tombstone is left
+  replyTo?: ReplyQuote; // The message this one answers
+  reactions?: Record<string, string[]>; // Ids of the members who reacted, by emoji
+  expiresAt?: number; // Removed from the conversation at this time (our clock)
+  viewOnce?: boolean; // Image or audio that is wiped once the recipient has opened it
+  viewed?: boolean; // A view-once message that was opened; its content is gone
+  viewedBy?: string[]; // Own view-once messages: recipients who have opened it
+}
+
+// Options for sending a message
+export interface SendOptions {
+  replyToId?: string; // The message this one answers
+  expiresIn?: number | null; // Milliseconds until it disappears; null never, unset for the conversation timer
+  viewOnce?: boolean; // Images and audio only
+}
+
+// Short quote of the message a reply answers, signed with the reply
+export interface ReplyQuote {
+  messageId: string;
+  senderId: string;
+  type: MessageType;
+  excerpt: string; // Start of the text, or the file name
 }
 
+// How a reply's quote compares with the original as we have it
+export type QuoteState = 'current' | 'edited' | 'deleted' | 'missing' | 'mismatch';
+
+// An earlier version of an edited message
+export interface MessageRevision {
+  content: string;
+  timestamp: number; // When this version was sent or edited
+}
+
+// File attachment details, as announced by the sender
 export interface DocumentInfo {
   name: string;
+  mimeType: string;
   size: number;
-  hash: string; // SHA-256 hash
-  signature: string; // Document signature
+  hash: string; // Hex SHA-256 of the whole file
+  signature?: DocumentSignature; // Sender's signature, for signed documents
+  verification?: DocumentVerification;
+  countersignatures?: DocumentSignature[]; // Other members' signatures over the same hash, oldest first
+  countersign?: Record<string, CountersignStatus>; // By member id, for everyone but the sender
 }
 
+// Where a member stands on countersigning a signed document
+export type CountersignStatus = 'pending' | 'signed' | 'declined';
+
+// Outcome of checking a signed document against the file that arrived
+export type DocumentVerification =
+  | 'pending' // The file has not fully arrived
+  | 'verified' // Signed by the sender's pinned certificate, and the file matches
+  | 'tampered' // The file or the signature does not match
+  | 'untrusted'; // Validly signed, but not by the sender's certificate
+
 // Crypto types
 export interface KeyPair {
   publicKey: CryptoKey;
@@ -38,6 +94,41 @@ export interface EncryptedData {
   salt?: Uint8Array; // For HKDF
 }
 
+// Double Ratchet types
+export interface RatchetHeader {
+  dh: string; // Sender's current ratchet public key (Base64 raw)
+  pn: number; // Messages sent in the sender's previous chain
+  n: number; // Index of this message in the current chain
+}
+
+// Serializable Double Ratchet session; key material is Base64 or JWK
+export interface RatchetState {
+  rootKey: string;
+  sendingChainKey: string | null;
+  receivingChainKey: string | null;
+  sendingRatchetPrivateKey: JsonWebKey;
+  sendingRatchetPublicKey: string;
+  receivingRatchetPublicKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: [string, string][]; // ["<ratchet key>:<n>", message key], oldest first
+}
+
+// Sender key types (group rooms)
+export interface SenderKeyHeader {
+  keyId: string; // Sender key generation, replaced whenever the roster changes
+  n: number; // Index of this message in the sender's chain
+}
+
+// Serializable sender key chain; the owner encrypts with it, members decrypt
+export interface SenderKeyState {
+  keyId: string;
+  chainKey: string; // Base64
+  n: number;
+  skippedKeys: [number, string][]; // [n, message key], oldest first
+}
+
 export interface SignedData {
   data: any;
   signature: Uint8Array;
@@ -51,6 +142,7 @@ export interface Certificate {
   issuer: string; // CA identifier
   issuedAt: number;
   expiresAt: number;
+  keyAgreementKey?: string; // Base64 ECDH public key of the issuing identity; a per-session CA has none
   signature: string; // CA signature
 }
 
@@ -59,6 +151,47 @@ export interface CertificateAuthority {
   name: string;
   publicKey: string;
   privateKey?: string; // Only for self-signed CA
+  keyAgreementKey?: string; // Only for an identity
+}
+
+// Long-term keys kept on this device across sessions. The signing key
+// issues each session's certificate, so it is the issuer peers pin.
+export interface Identity {
+  id: string; // Issuer id of the certificates it signs
+  fingerprint: string; // Hex SHA-256 of the signing public key, in groups of four
+  publicKey: string; // Base64 encoded ECDSA public key
+  keyAgreementKey: string; // Base64 encoded ECDH public key, named in every certificate it issues
+  signingKeyPair: SigningKeyPair; // Private key is non-extractable
+  keyAgreementPair: KeyPair; // Private key is non-extractable
+  createdAt: number;
+  persisted: boolean; // False where the browser cannot store it, so it lasts one page
+}
+
+// Someone we have talked to, known by the identity key behind their certificates
+export interface Contact {
+  fingerprint: string; // Of the identity key, as people compare it
+  identityKey: string; // Base64 encoded ECDSA public key of their identity
+  nickname: string; // Our name for them
+  name: string; // The name they went by when saved
+  addedAt: number;
+  verified?: boolean; // Safety number compared with them and confirmed
+  verifiedAt?: number;
+}
+
+// Short authentication string for one pairwise session, read out or
+// compared side by side to rule out someone in the middle
+export interface SafetyNumber {
+  digits: string; // 30 digits in groups of five
+  emoji: { emoji: string; name: string }[]; // Seven emoji, easier to compare aloud
+}
+
+// A public key trusted to sign certificates, looked up by Certificate.issuer
+export interface TrustAnchor {
+  id: string; // CA identifier
+  name: string;
+  publicKey: string; // Base64 encoded public key
+  source: 'local' | 'imported' | 'pinned'; // This page's own CA, added by hand, or pinned on first use at pairing
+  addedAt: number;
 }
 
 // Socket message types
@@ -67,31 +200,288 @@ export interface PairingRequest {
   pairingCode: string;
   publicKey: string; // Base64 encoded public key
   certificate: Certificate;
+  issuer: CertificateAuthority; // Public key of the certificate's issuer, pinned once the request is accepted
+  signature: string; // Signed with the certificate's key
 }
 
 export interface PairingResponse {
   type: 'pairing-response';
   publicKey: string; // Base64 encoded public key
   certificate: Certificate;
+  issuer: CertificateAuthority; // Public key of the certificate's issuer, pinned once the proof of the code checks out
   accepted: boolean;
+  signature: string; // Binds the answer to the request it accepts or rejects
+}
+
+// Where this tab is in the pairing handshake
+export type PairingStatus =
+  | 'idle'
+  | 'waiting' // Room created, nobody asked to join yet
+  | 'approval-needed' // A signed request is waiting for the creator
+  | 'requested' // Request sent, waiting for the creator's answer
+  | 'rejected'
+  | 'paired';
+
+// Sender details bound to a message by its signature, for replay protection
+export interface MessageMeta {
+  senderId: string; // Certificate id
+  roomCode: string;
+  to: string | null; // Recipient id, or null for the whole group
+  sequence: number; // Counts up from 1 per sender, room and recipient
+  timestamp: number; // Sender's clock
 }
 
 export interface ChatMessage {
   type: 'chat-message';
   data: string; // Encrypted and Base64 encoded message
   iv: string; // Base64 encoded initialization vector
-  signature: string; // Base64 encoded signature
+  signature: string; // Base64 encoded signature over meta, ciphertext, iv and header
   certificate: Certificate; // Sender's certificate
   salt?: string; // For forward secrecy
+  header?: RatchetHeader; // Double Ratchet header, authenticated as AES-GCM additional data
+  senderKey?: SenderKeyHeader; // Set instead of header on group messages
+  meta: MessageMeta;
+}
+
+// File transfer types
+// Announces a file; sent as an ordinary chat message so it is encrypted and signed
+export interface FileOffer {
+  transferId: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  hash: string; // Hex SHA-256 of the whole file
+  key: string; // Base64 raw AES-GCM key the chunks are encrypted with
 }
 
+export interface FileChunk {
+  transferId: string;
+  index: number;
+  iv: string; // Base64
+  data: string; // Base64 AES-GCM ciphertext and tag
+}
+
+export type FileTransferStatus =
+  | 'preparing' // Hashing the file before offering it
+  | 'waiting' // Offered, no recipient has accepted yet
+  | 'transferring'
+  | 'paused' // No progress for a while; resumes from the last acknowledged chunk
+  | 'complete'
+  | 'failed';
+
+export interface FileTransferProgress {
+  transferId: string;
+  messageId: string;
+  direction: 'send' | 'receive';
+  name: string;
+  mimeType: string;
+  size: number;
+  bytesTransferred: number; // For a group send, what the slowest recipient has
+  status: FileTransferStatus;
+  error?: string;
+}
+
+// Room membership
+export interface RoomMember {
+  id: string; // Certificate id
+  certificate: Certificate;
+  isCreator: boolean;
+}
+
+// Control messages carried over the pairwise Double Ratchet sessions
+export type GroupControl =
+  // Creator to members: the group's signed join requests, in join order
+  | { type: 'roster'; group: boolean; members: PairingRequest[] }
+  // Any member to every other member after a roster change
+  | { type: 'sender_key'; state: SenderKeyState }
+  // Member to creator
+  | { type: 'leave' }
+  // Recipient to sender, for messages it decrypted or has shown
+  | { type: 'receipt'; status: 'delivered' | 'read'; messageIds: string[] }
+  // Recipient to sender: how many chunks of a file it holds in order, so
+  // the sender may run ahead by a window; `resume` asks to resend from there
+  | { type: 'file_ack'; transferId: string; received: number; resume: boolean }
+  // Any member to every other member: its countersignature on a signed
+  // document, or null if it declined to sign
+  | { type: 'countersign'; messageId: string; signature: DocumentSignature | null }
+  // Sender to everyone else: a new version of one of its text messages,
+  // or its deletion for everyone
+  | { type: 'edit'; messageId: string; content: string; timestamp: number }
+  | { type: 'delete'; messageId: string }
+  // Any member to every other member: a reaction added to or removed from a message
+  | { type: 'reaction'; messageId: string; emoji: string; add: boolean }
+  // Any member to every other member: the conversation's disappearing
+  // timer in milliseconds, or null for off; the latest setting wins
+  | { type: 'timer'; duration: number | null; timestamp: number }
+  // Recipient to sender: a view-once message was opened and wiped
+  | { type: 'viewed'; messageId: string }
+  // Any member to every other member after it reloaded and picked its session back up
+  | { type: 'resume'; token: ResumeToken };
+
+// Presence of another room member
+export type PresenceState = 'online' | 'away' | 'offline';
+
+// Signed heartbeat. It carries no message content, so it is not encrypted.
+export interface PresenceMessage {
+  type: 'presence';
+  state: 'online' | 'away'; // Away while the page is hidden
+  typing: boolean;
+  timestamp: number;
+  certificate: Certificate;
+  signature: string;
+}
+
+// Signed goodbye, sent on leaving and when the tab is closed
 export interface DisconnectMessage {
   type: 'disconnect';
+  timestamp: number;
+  certificate: Certificate;
+  signature: string;
+}
+
+// Creator's signed notice that it closed the room
+export interface RoomClosedMessage {
+  type: 'room_closed';
+  timestamp: number;
+  certificate: Certificate;
+  signature: string;
+}
+
+// Transport types
+// `from` and `to` are room member ids; envelopes are relayed to the whole
+// room, so members skip those addressed to someone else
+export type TransportEnvelope =
+  | { type: 'message'; roomCode: string; id: string; from: string; to?: string; payload: ChatMessage }
+  | { type: 'direct'; roomCode: string; from: string; to: string; payload: ChatMessage }
+  | { type: 'file_chunk'; roomCode: string; from: string; to: string; payload: FileChunk }
+  | { type: 'presence'; roomCode: string; from: string; payload: PresenceMessage }
+  | { type: 'disconnect'; roomCode: string; from: string; payload: DisconnectMessage }
+  | { type: 'pake_init'; roomCode: string; from: string; payload: string } // Joiner's SPAKE2 share
+  | { type: 'pake_reply'; roomCode: string; to: string; payload: string } // Creator's SPAKE2 share
+  // Proofs are MACs over the signature with the PAKE key; rejections carry none
+  | { type: 'pairing_request'; roomCode: string; payload: PairingRequest; proof: string }
+  | { type: 'pairing_response'; roomCode: string; to: string; payload: PairingResponse; proof?: string }
+  // Unsigned only when the transport itself closes the room; members' are dropped
+  | { type: 'room_closed'; roomCode: string; from?: string; payload?: RoomClosedMessage };
+
+export interface RoomInfo {
+  roomCode: string;
+  creatorCert: Certificate | null; // Who is expected to answer pairing requests
+}
+
+export interface ChatTransport {
+  readonly kind: TransportKind;
+  connect(): Promise<void>;
+  createRoom(roomCode: string, creatorCert: Certificate | null): Promise<void>;
+  joinRoom(roomCode: string): Promise<RoomInfo | null>; // Null when missing, closed or our own
+  leaveRoom(roomCode: string): void; // The creator leaving closes the room
+  resumeRoom(roomCode: string, asCreator: boolean): Promise<RoomInfo | null>; // Back into a room after a reload; null when it is gone
+  send(envelope: TransportEnvelope): void;
+  onMessage(handler: (envelope: TransportEnvelope) => void): () => void; // Returns unsubscribe
+  close(): void;
+}
+
+// Acknowledgement for relay room requests (create_room, join_room)
+export interface RelayAck {
+  ok: boolean;
+  error?: string;
+  room?: RoomInfo;
+  resumeSecret?: string; // create_room: lets the creator take the room back after a reload
+}
+
+export type TransportKind = 'broadcast' | 'socketio' | 'memory' | 'webrtc';
+
+export interface TransportConfig {
+  kind: TransportKind;
+  channelName?: string; // BroadcastChannel name or in-memory hub name
+  url?: string; // Socket.IO server URL
+  iceServers?: RTCIceServer[]; // WebRTC only; empty for LAN/air-gapped use
+}
+
+// Signed SDP offer or answer exchanged out of band for WebRTC mode
+export interface SignalingBlob {
+  type: 'offer' | 'answer';
+  roomCode: string;
+  sdp: string;
+  certificate: Certificate;
+  timestamp: number;
+  offerSignature?: string; // Answers are bound to the offer they answer
+  signature: string;
 }
 
 export interface DocumentSignature {
   documentHash: string;
   signature: string;
   certificate: Certificate;
-  timestamp: number;
+  timestamp: number; // Signed along with the hash
+}
+
+// Every signature over one document, in the order they were made
+export interface SignatureBundle {
+  documentHash: string;
+  signatures: DocumentSignature[];
+}
+
+// Local history vault: not set up, set up but locked, or open for reads and writes
+export type VaultStatus = 'off' | 'locked' | 'unlocked';
+
+// A conversation's history as kept in the vault
+export interface StoredHistory {
+  roomCode: string;
+  messages: Message[]; // Attachment content is stored separately by message id
+  updatedAt: number;
+}
+
+// What it takes to pick a conversation's sessions back up
+export interface StoredSession {
+  roomCode: string;
+  isGroup: boolean;
+  isCreator: boolean;
+  members: RoomMember[];
+  ratchets: Record<string, RatchetState>; // By member id
+  disappearAfter: number | null;
+  timerSetAt: number; // When the timer was last set, so a newer setting wins
+  savedAt: number;
+}
+
+// A sender's replay window, as saved for a resumed session
+export interface ReplayWindowState {
+  highest: number;
+  seen: number[];
+}
+
+// Signed by a member that reloaded its page and resumed its session
+export interface ResumeToken {
+  roomCode: string;
+  memberId: string;
+  resumedAt: number;
+  signature: string;
+}
+
+// Everything a reloaded tab needs to carry on in its room without pairing again
+export interface SessionSnapshot {
+  roomCode: string;
+  isGroup: boolean;
+  isCreator: boolean;
+  certificate: Certificate;
+  issuer: TrustAnchor | null; // The certificate's issuer, whose private key did not survive the reload
+  signingKey: JsonWebKey; // ECDSA private key, public coordinates included
+  sessionKey: JsonWebKey | null; // ECDH pairing key, for members who join later
+  peerSessionKeys: Record<string, string>; // ECDH key each member paired with, by member id
+  creatorCert: Certificate | null;
+  shareCode: string | null; // The whole pairing code, which the creator still needs for later joiners
+  members: RoomMember[];
+  acceptedRequests: PairingRequest[]; // Creator only
+  ratchets: Record<string, RatchetState>; // By member id
+  ownSenderKey: SenderKeyState | null;
+  senderKeys: Record<string, SenderKeyState[]>; // By member id, newest first
+  sequences: Record<string, number>; // Our last sequence number per channel
+  replayWindows: Record<string, ReplayWindowState>;
+  receivedIds: Record<string, string>; // Sender id by message id
+  messages: Message[]; // Without file contents
+  disappearAfter: number | null;
+  timerSetAt: number;
+  savedAt: number;
 }
\ No newline at end of file
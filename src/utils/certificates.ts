@@ -1,5 +1,6 @@
-import { Certificate, CertificateAuthority, SigningKeyPair } from '../types';
+import { Certificate, CertificateAuthority, Identity, SigningKeyPair } from '../types';
 import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+import { TrustStore } from './trustStore';
 
 /**
  * Certificate management utilities
@@ -7,6 +8,7 @@ import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
 export class CertificateManager {
   private static instance: CertificateManager;
   private ca: CertificateAuthority | null = null;
+  private caKey: CryptoKey | null = null;
 
   static getInstance(): CertificateManager {
     if (!CertificateManager.instance) {
@@ -16,23 +18,44 @@ export class CertificateManager {
   }
 
   /**
-   * Initialize a self-signed Certificate Authority
+   * Initialize a self-signed Certificate Authority and trust it
    */
   async initializeCA(): Promise<CertificateAuthority> {
     const keyPair = await this.generateSigningKeyPair();
     const publicKeyData = await this.exportPublicKey(keyPair.publicKey);
     const privateKeyData = await this.exportPrivateKey(keyPair.privateKey);
 
+    // Every tab runs its own CA, so the id must not collide with a peer's
     this.ca = {
-      id: 'cipher-ca-' + Date.now(),
+      id: 'cipher-ca-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9),
       name: 'Cipher Chat CA',
       publicKey: publicKeyData,
       privateKey: privateKeyData
     };
+    this.caKey = keyPair.privateKey;
+    await TrustStore.getInstance().addLocal(this.ca);
 
     return this.ca;
   }
 
+  /**
+   * Issue certificates with the device's long-term identity instead of a
+   * CA of our own, so they chain to the same key from one session to the next
+   */
+  async useIdentity(identity: Identity): Promise<CertificateAuthority> {
+    const ca: CertificateAuthority = {
+      id: identity.id,
+      name: 'Cipher Chat identity',
+      publicKey: identity.publicKey,
+      keyAgreementKey: identity.keyAgreementKey
+    };
+    await TrustStore.getInstance().addLocal(ca);
+    this.ca = ca;
+    this.caKey = identity.signingKeyPair.privateKey;
+
+    return ca;
+  }
+
   /**
    * Generate ECDSA key pair for signing
    */
@@ -58,26 +81,32 @@ export class CertificateManager {
   async issueCertificate(
     subject: string,
     publicKey: CryptoKey,
-    validityDays: number = 30
+    validityDays: number = 30,
+    issuedAt: number = Date.now()
   ): Promise<Certificate> {
     if (!this.ca) {
       await this.initializeCA();
     }
+    // Issue and sign with the same CA even if another call replaces it meanwhile
+    const { ca, caKey } = this;
+    if (!ca || !caKey) {
+      throw new Error('CA not initialized');
+    }
 
     const publicKeyData = await this.exportPublicKey(publicKey);
-    const now = Date.now();
-    const expiresAt = now + (validityDays * 24 * 60 * 60 * 1000);
+    const expiresAt = issuedAt + (validityDays * 24 * 60 * 60 * 1000);
 
     const certData = {
       subject,
       publicKey: publicKeyData,
-      issuer: this.ca!.id,
-      issuedAt: now,
-      expiresAt
+      issuer: ca.id,
+      issuedAt,
+      expiresAt,
+      ...(ca.keyAgreementKey && { keyAgreementKey: ca.keyAgreementKey })
     };
 
     // Sign the certificate data
-    const signature = await this.signCertificate(certData);
+    const signature = await this.signCertificate(caKey, certData);
 
     const certificate: Certificate = {
       id: 'cert-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9),
@@ -91,12 +120,7 @@ export class CertificateManager {
   /**
    * Sign certificate data with CA private key
    */
-  private async signCertificate(certData: any): Promise<string> {
-    if (!this.ca?.privateKey) {
-      throw new Error('CA not initialized');
-    }
-
-    const caPrivateKey = await this.importPrivateKey(this.ca.privateKey);
+  private async signCertificate(caPrivateKey: CryptoKey, certData: Omit<Certificate, 'id' | 'signature'>): Promise<string> {
     const dataToSign = JSON.stringify(certData);
     const encoder = new TextEncoder();
     const data = encoder.encode(dataToSign);
@@ -114,21 +138,24 @@ export class CertificateManager {
   }
 
   /**
-   * Verify a certificate's signature
+   * Verify a certificate's signature against the trusted key for its issuer,
+   * or against the given issuer key, and that it had not expired at the given time
    */
-  async verifyCertificate(certificate: Certificate): Promise<boolean> {
+  async verifyCertificate(certificate: Certificate, issuerKey?: string, at: number = Date.now()): Promise<boolean> {
     try {
-      if (!this.ca) {
+      const trustedKey = issuerKey ?? TrustStore.getInstance().get(certificate.issuer)?.publicKey;
+      if (!trustedKey) {
         return false;
       }
 
-      const caPublicKey = await this.importPublicKey(this.ca.publicKey);
+      const caPublicKey = await this.importPublicKey(trustedKey);
       const certData = {
         subject: certificate.subject,
         publicKey: certificate.publicKey,
         issuer: certificate.issuer,
         issuedAt: certificate.issuedAt,
-        expiresAt: certificate.expiresAt
+        expiresAt: certificate.expiresAt,
+        ...(certificate.keyAgreementKey !== undefined && { keyAgreementKey: certificate.keyAgreementKey })
       };
 
       const dataToVerify = JSON.stringify(certData);
@@ -147,8 +174,7 @@ export class CertificateManager {
       );
 
       // Check expiration
-      const now = Date.now();
-      const isNotExpired = now < certificate.expiresAt;
+      const isNotExpired = at < certificate.expiresAt;
 
       return isValid && isNotExpired;
     } catch (error) {
@@ -215,9 +241,11 @@ export class CertificateManager {
   }
 
   /**
-   * Reset CA (for cleanup)
+   * Reset CA (for cleanup). Its public key stays trusted for the
+   * certificates it already issued.
    */
   reset(): void {
     this.ca = null;
+    this.caKey = null;
   }
 }
\ No newline at end of file
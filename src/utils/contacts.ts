@@ -0,0 +1,94 @@
+import { Certificate, Contact } from '../types';
+import { base64ToArrayBuffer } from './encoding';
+import { IdentityKeys } from './identity';
+import { TrustStore } from './trustStore';
+
+const STORAGE_KEY = 'cipher-contacts';
+const EXPORT_TYPE = 'cipher-contacts';
+
+/**
+ * Storage and lookups for the contacts book. Contacts hold public keys and
+ * nicknames only, so they are kept in localStorage like the trust store.
+ */
+export class ContactBook {
+  /**
+   * The name someone chose, without the suffix that makes their
+   * certificate's subject unique
+   */
+  static subjectName(certificate: Certificate): string {
+    return certificate.subject.replace(/-[^-]*$/, '');
+  }
+
+  /**
+   * The identity key that issued a certificate, once its issuer is trusted
+   */
+  static identityKey(certificate: Certificate): string | null {
+    return TrustStore.getInstance().get(certificate.issuer)?.publicKey || null;
+  }
+
+  static load(): Contact[] {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.warn('Failed to load contacts:', error);
+      return [];
+    }
+  }
+
+  static save(contacts: Contact[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(contacts));
+  }
+
+  static export(contacts: Contact[]): string {
+    return JSON.stringify({
+      type: EXPORT_TYPE,
+      contacts: contacts.map(({ identityKey, nickname, name, addedAt }) => ({ identityKey, nickname, name, addedAt }))
+    }, null, 2);
+  }
+
+  /**
+   * Read an exported contacts file. Fingerprints are worked out again from
+   * the keys rather than taken from the file, and nobody comes in verified:
+   * only comparing safety numbers on this device does that.
+   */
+  static async parse(text: string): Promise<Contact[]> {
+    let parsed: { type?: string; contacts?: Partial<Contact>[] };
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Not a contacts file');
+    }
+    if (parsed?.type !== EXPORT_TYPE || !Array.isArray(parsed.contacts)) {
+      throw new Error('Not a contacts file');
+    }
+
+    const contacts: Contact[] = [];
+    for (const entry of parsed.contacts) {
+      if (typeof entry?.identityKey !== 'string' || typeof entry.nickname !== 'string' || !entry.nickname.trim()) {
+        throw new Error('Contacts file is malformed');
+      }
+      let fingerprint: string;
+      try {
+        await window.crypto.subtle.importKey(
+          'raw',
+          base64ToArrayBuffer(entry.identityKey),
+          { name: 'ECDSA', namedCurve: 'P-256' },
+          false,
+          ['verify']
+        );
+        fingerprint = await IdentityKeys.fingerprint(entry.identityKey);
+      } catch {
+        throw new Error(`Contact ${entry.nickname} does not hold a valid key`);
+      }
+      contacts.push({
+        fingerprint,
+        identityKey: entry.identityKey,
+        nickname: entry.nickname.trim(),
+        name: typeof entry.name === 'string' ? entry.name : entry.nickname.trim(),
+        addedAt: typeof entry.addedAt === 'number' ? entry.addedAt : Date.now(),
+        verified: false
+      });
+    }
+    return contacts;
+  }
+}
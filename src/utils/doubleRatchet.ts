@@ -0,0 +1,326 @@
+import { KeyPair, RatchetHeader, RatchetState } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+import { ForwardSecrecy } from './forwardSecrecy';
+
+// Most message keys skipped within a single chain
+const MAX_SKIP = 100;
+// Most skipped message keys kept for out-of-order delivery, oldest evicted first
+const MAX_STORED_SKIPPED_KEYS = 500;
+
+export interface RatchetCiphertext {
+  header: RatchetHeader;
+  data: string; // Base64 AES-GCM ciphertext
+  iv: string; // Base64
+}
+
+const encoder = new TextEncoder();
+
+async function importRatchetPublicKey(publicKey: string): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(publicKey),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    []
+  );
+}
+
+async function exportRatchetKeyPair(pair: KeyPair): Promise<{ privateKey: JsonWebKey; publicKey: string }> {
+  const [privateKey, publicKey] = await Promise.all([
+    window.crypto.subtle.exportKey('jwk', pair.privateKey),
+    window.crypto.subtle.exportKey('raw', pair.publicKey)
+  ]);
+  return { privateKey, publicKey: arrayBufferToBase64(publicKey) };
+}
+
+/**
+ * Chain used by the responder before the initiator's first message
+ * arrives, so either side can speak first
+ */
+async function initialResponderChain(rootKey: Uint8Array): Promise<Uint8Array> {
+  const keyMaterial = await window.crypto.subtle.importKey('raw', rootKey, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await window.crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32),
+      info: encoder.encode('cipher-chat-responder-chain')
+    },
+    keyMaterial,
+    256
+  ));
+}
+
+/**
+ * AES-GCM key for a single message key
+ */
+async function messageCipherKey(messageKey: Uint8Array): Promise<CryptoKey> {
+  const keyMaterial = await window.crypto.subtle.importKey('raw', messageKey, 'HKDF', false, ['deriveKey']);
+  return window.crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32),
+      info: encoder.encode('cipher-chat-message')
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Double Ratchet session (Signal specification) built on the
+ * ForwardSecrecy primitives.
+ *
+ * The room creator is the responder: its pairing ECDH key is the first
+ * ratchet key, and the joiner (initiator) ratchets against it straight
+ * away. Every reply carrying a new ratchet key triggers a DH ratchet step.
+ */
+export class DoubleRatchet {
+  // Operations mutate the session, so they run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(
+    private state: RatchetState,
+    private sendingKeyPair: KeyPair
+  ) {}
+
+  /**
+   * Stretch the pairing secret (an HKDF key) into the first root key
+   */
+  static async deriveRootKey(sharedSecret: CryptoKey): Promise<Uint8Array> {
+    return new Uint8Array(await window.crypto.subtle.deriveBits(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(32),
+        info: encoder.encode('cipher-chat-ratchet-root')
+      },
+      sharedSecret,
+      256
+    ));
+  }
+
+  /**
+   * Start a session as the joiner, who knows the creator's ratchet key
+   */
+  static async initInitiator(rootKey: Uint8Array, responderPublicKey: string): Promise<DoubleRatchet> {
+    const sendingKeyPair = await ForwardSecrecy.generateEphemeralKeyPair(true);
+    const exported = await exportRatchetKeyPair(sendingKeyPair);
+    const step = await ForwardSecrecy.ratchetKeys(
+      rootKey,
+      sendingKeyPair.privateKey,
+      await importRatchetPublicKey(responderPublicKey)
+    );
+
+    return new DoubleRatchet({
+      rootKey: arrayBufferToBase64(step.rootKey),
+      sendingChainKey: arrayBufferToBase64(step.chainKey),
+      receivingChainKey: arrayBufferToBase64(await initialResponderChain(rootKey)),
+      sendingRatchetPrivateKey: exported.privateKey,
+      sendingRatchetPublicKey: exported.publicKey,
+      receivingRatchetPublicKey: responderPublicKey,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: []
+    }, sendingKeyPair);
+  }
+
+  /**
+   * Start a session as the creator, whose pairing key pair (which must be
+   * extractable) becomes the first ratchet key pair
+   */
+  static async initResponder(rootKey: Uint8Array, ownKeyPair: KeyPair): Promise<DoubleRatchet> {
+    const exported = await exportRatchetKeyPair(ownKeyPair);
+
+    return new DoubleRatchet({
+      rootKey: arrayBufferToBase64(rootKey),
+      sendingChainKey: arrayBufferToBase64(await initialResponderChain(rootKey)),
+      receivingChainKey: null,
+      sendingRatchetPrivateKey: exported.privateKey,
+      sendingRatchetPublicKey: exported.publicKey,
+      receivingRatchetPublicKey: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: []
+    }, ownKeyPair);
+  }
+
+  /**
+   * Rebuild a session from serialize()
+   */
+  static async restore(state: RatchetState): Promise<DoubleRatchet> {
+    const [privateKey, publicKey] = await Promise.all([
+      window.crypto.subtle.importKey(
+        'jwk',
+        state.sendingRatchetPrivateKey,
+        { name: 'ECDH', namedCurve: 'P-256' },
+        true,
+        ['deriveKey', 'deriveBits']
+      ),
+      importRatchetPublicKey(state.sendingRatchetPublicKey)
+    ]);
+
+    return new DoubleRatchet(structuredClone(state), { privateKey, publicKey });
+  }
+
+  /**
+   * Snapshot of the session that can be stored and passed to restore()
+   */
+  serialize(): RatchetState {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * Encrypt with the next key of the sending chain
+   */
+  encrypt(plaintext: string): Promise<RatchetCiphertext> {
+    return this.exclusive(async () => {
+      if (!this.state.sendingChainKey) {
+        throw new Error('Ratchet has no sending chain');
+      }
+
+      const step = await ForwardSecrecy.chainStep(base64ToArrayBuffer(this.state.sendingChainKey));
+      const header: RatchetHeader = {
+        dh: this.state.sendingRatchetPublicKey,
+        pn: this.state.previousSendCount,
+        n: this.state.sendCount
+      };
+      const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+      const ciphertext = await window.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(JSON.stringify(header)) },
+        await messageCipherKey(step.messageKey),
+        encoder.encode(plaintext)
+      );
+
+      this.state.sendingChainKey = arrayBufferToBase64(step.chainKey);
+      this.state.sendCount += 1;
+
+      return {
+        header,
+        data: arrayBufferToBase64(ciphertext),
+        iv: arrayBufferToBase64(iv)
+      };
+    });
+  }
+
+  /**
+   * Decrypt a message, ratcheting forward as needed. The session only
+   * changes if the message authenticates, so forged input cannot
+   * desynchronise it.
+   */
+  decrypt(message: RatchetCiphertext): Promise<string> {
+    return this.exclusive(async () => {
+      const draft = structuredClone(this.state);
+      let draftKeyPair = this.sendingKeyPair;
+      const { header } = message;
+
+      let messageKey = this.takeSkippedKey(draft, header);
+      if (!messageKey) {
+        if (header.dh !== draft.receivingRatchetPublicKey) {
+          await this.skipMessageKeys(draft, header.pn);
+          draftKeyPair = await this.dhRatchet(draft, header);
+        }
+        await this.skipMessageKeys(draft, header.n);
+
+        const step = await ForwardSecrecy.chainStep(base64ToArrayBuffer(draft.receivingChainKey!));
+        draft.receivingChainKey = arrayBufferToBase64(step.chainKey);
+        draft.receiveCount += 1;
+        messageKey = step.messageKey;
+      }
+
+      const plaintext = await window.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: base64ToArrayBuffer(message.iv),
+          additionalData: encoder.encode(JSON.stringify(header))
+        },
+        await messageCipherKey(messageKey),
+        base64ToArrayBuffer(message.data)
+      );
+
+      this.state = draft;
+      this.sendingKeyPair = draftKeyPair;
+      return new TextDecoder().decode(plaintext);
+    });
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private takeSkippedKey(state: RatchetState, header: RatchetHeader): Uint8Array | null {
+    const id = `${header.dh}:${header.n}`;
+    const index = state.skippedKeys.findIndex(([keyId]) => keyId === id);
+    if (index === -1) {
+      return null;
+    }
+    const [, messageKey] = state.skippedKeys.splice(index, 1)[0];
+    return base64ToArrayBuffer(messageKey);
+  }
+
+  /**
+   * Store keys for messages of the current receiving chain that have not
+   * arrived yet, up to (not including) index `until`
+   */
+  private async skipMessageKeys(state: RatchetState, until: number): Promise<void> {
+    if (!state.receivingChainKey || !state.receivingRatchetPublicKey) {
+      return;
+    }
+    if (until - state.receiveCount > MAX_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    let chainKey = base64ToArrayBuffer(state.receivingChainKey);
+    while (state.receiveCount < until) {
+      const step = await ForwardSecrecy.chainStep(chainKey);
+      state.skippedKeys.push([
+        `${state.receivingRatchetPublicKey}:${state.receiveCount}`,
+        arrayBufferToBase64(step.messageKey)
+      ]);
+      chainKey = step.chainKey;
+      state.receiveCount += 1;
+    }
+    state.receivingChainKey = arrayBufferToBase64(chainKey);
+
+    if (state.skippedKeys.length > MAX_STORED_SKIPPED_KEYS) {
+      state.skippedKeys.splice(0, state.skippedKeys.length - MAX_STORED_SKIPPED_KEYS);
+    }
+  }
+
+  /**
+   * The peer replied with a new ratchet key: derive its receiving chain,
+   * then a fresh key pair and sending chain of our own
+   */
+  private async dhRatchet(state: RatchetState, header: RatchetHeader): Promise<KeyPair> {
+    const peerKey = await importRatchetPublicKey(header.dh);
+    const receiving = await ForwardSecrecy.ratchetKeys(
+      base64ToArrayBuffer(state.rootKey),
+      this.sendingKeyPair.privateKey,
+      peerKey
+    );
+
+    const sendingKeyPair = await ForwardSecrecy.generateEphemeralKeyPair(true);
+    const sending = await ForwardSecrecy.ratchetKeys(receiving.rootKey, sendingKeyPair.privateKey, peerKey);
+    const exported = await exportRatchetKeyPair(sendingKeyPair);
+
+    state.previousSendCount = state.sendCount;
+    state.sendCount = 0;
+    state.receiveCount = 0;
+    state.receivingRatchetPublicKey = header.dh;
+    state.receivingChainKey = arrayBufferToBase64(receiving.chainKey);
+    state.rootKey = arrayBufferToBase64(sending.rootKey);
+    state.sendingChainKey = arrayBufferToBase64(sending.chainKey);
+    state.sendingRatchetPrivateKey = exported.privateKey;
+    state.sendingRatchetPublicKey = exported.publicKey;
+
+    return sendingKeyPair;
+  }
+}
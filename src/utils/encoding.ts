@@ -1,13 +1,15 @@
 /**
  * Convert ArrayBuffer to Base64 string
  */
-export function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  // Convert in slices: one character at a time is slow on large buffers,
+  // and the whole buffer at once overflows the argument limit
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+    parts.push(String.fromCharCode(...bytes.subarray(i, i + 0x8000)));
   }
-  return window.btoa(binary);
+  return window.btoa(parts.join(''));
 }
 
 /**
@@ -22,6 +24,17 @@ export function base64ToArrayBuffer(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Convert a hex string (such as a SHA-256 digest) to Base64
+ */
+export function hexToBase64(hex: string): string {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return arrayBufferToBase64(bytes);
+}
+
 /**
  * Convert string to ArrayBuffer
  */
@@ -1,12 +1,9 @@
-import { EncryptedData, KeyPair } from '../types';
-import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+import { KeyPair } from '../types';
 
 /**
  * Forward secrecy implementation using HKDF and ephemeral keys
  */
 export class ForwardSecrecy {
-  private static messageCounter = 0;
-
   /**
    * Derive a new encryption key using HKDF
    */
@@ -15,14 +12,16 @@ export class ForwardSecrecy {
     salt: Uint8Array,
     info: string = 'cipher-chat-message'
   ): Promise<CryptoKey> {
-    // Import shared secret as key material
-    const keyMaterial = await window.crypto.subtle.importKey(
-      'raw',
-      await window.crypto.subtle.exportKey('raw', sharedSecret),
-      'HKDF',
-      false,
-      ['deriveKey']
-    );
+    // Import shared secret as key material (ECDH-derived secrets are already HKDF keys)
+    const keyMaterial = sharedSecret.algorithm.name === 'HKDF'
+      ? sharedSecret
+      : await window.crypto.subtle.importKey(
+          'raw',
+          await window.crypto.subtle.exportKey('raw', sharedSecret),
+          'HKDF',
+          false,
+          ['deriveKey']
+        );
 
     // Derive new key using HKDF
     return await window.crypto.subtle.deriveKey(
@@ -43,87 +42,17 @@ export class ForwardSecrecy {
   }
 
   /**
-   * Encrypt message with forward secrecy
-   */
-  static async encryptWithForwardSecrecy(
-    message: string,
-    sharedSecret: CryptoKey
-  ): Promise<EncryptedData> {
-    // Generate random salt for this message
-    const salt = window.crypto.getRandomValues(new Uint8Array(32));
-    
-    // Derive ephemeral key
-    const messageKey = await this.deriveMessageKey(
-      sharedSecret,
-      salt,
-      `message-${this.messageCounter++}`
-    );
-
-    // Encrypt with ephemeral key
-    const encoder = new TextEncoder();
-    const data = encoder.encode(message);
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-
-    const encryptedData = await window.crypto.subtle.encrypt(
-      {
-        name: 'AES-GCM',
-        iv
-      },
-      messageKey,
-      data
-    );
-
-    return {
-      data: new Uint8Array(encryptedData),
-      iv,
-      salt
-    };
-  }
-
-  /**
-   * Decrypt message with forward secrecy
-   */
-  static async decryptWithForwardSecrecy(
-    encryptedData: EncryptedData,
-    sharedSecret: CryptoKey,
-    messageIndex: number = 0
-  ): Promise<string> {
-    if (!encryptedData.salt) {
-      throw new Error('Salt required for forward secrecy decryption');
-    }
-
-    // Derive the same ephemeral key
-    const messageKey = await this.deriveMessageKey(
-      sharedSecret,
-      encryptedData.salt,
-      `message-${messageIndex}`
-    );
-
-    // Decrypt with ephemeral key
-    const decryptedData = await window.crypto.subtle.decrypt(
-      {
-        name: 'AES-GCM',
-        iv: encryptedData.iv
-      },
-      messageKey,
-      encryptedData.data
-    );
-
-    const decoder = new TextDecoder();
-    return decoder.decode(decryptedData);
-  }
-
-  /**
-   * Generate ephemeral key pair for ratcheting
+   * Generate ephemeral key pair for ratcheting. Ratchet sessions that must
+   * be serialized need extractable keys.
    */
-  static async generateEphemeralKeyPair(): Promise<KeyPair> {
+  static async generateEphemeralKeyPair(extractable: boolean = false): Promise<KeyPair> {
     const keyPair = await window.crypto.subtle.generateKey(
       {
         name: 'ECDH',
         namedCurve: 'P-256'
       },
-      false,
-      ['deriveKey']
+      extractable,
+      ['deriveKey', 'deriveBits']
     );
 
     return {
@@ -133,35 +62,61 @@ export class ForwardSecrecy {
   }
 
   /**
-   * Perform key ratchet step
+   * Perform a DH ratchet step: mix a fresh ECDH output into the root key
+   * and split off a new chain key (KDF_RK in the Double Ratchet spec)
    */
   static async ratchetKeys(
-    currentSharedSecret: CryptoKey,
+    rootKey: Uint8Array,
     ephemeralPrivateKey: CryptoKey,
     peerEphemeralPublicKey: CryptoKey
-  ): Promise<CryptoKey> {
-    // Derive new shared secret from ephemeral keys
-    const newSharedSecret = await window.crypto.subtle.deriveKey(
+  ): Promise<{ rootKey: Uint8Array; chainKey: Uint8Array }> {
+    const dhOutput = await window.crypto.subtle.deriveBits(
       {
         name: 'ECDH',
         public: peerEphemeralPublicKey
       },
       ephemeralPrivateKey,
+      256
+    );
+
+    const keyMaterial = await window.crypto.subtle.importKey('raw', dhOutput, 'HKDF', false, ['deriveBits']);
+    const derived = new Uint8Array(await window.crypto.subtle.deriveBits(
       {
-        name: 'AES-GCM',
-        length: 256
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: rootKey,
+        info: new TextEncoder().encode('cipher-chat-ratchet')
       },
-      false,
-      ['encrypt', 'decrypt']
-    );
+      keyMaterial,
+      512
+    ));
 
-    return newSharedSecret;
+    return {
+      rootKey: derived.slice(0, 32),
+      chainKey: derived.slice(32)
+    };
   }
 
   /**
-   * Reset message counter (for new sessions)
+   * Advance a symmetric chain by one message (KDF_CK in the Double Ratchet spec)
    */
-  static resetCounter(): void {
-    this.messageCounter = 0;
+  static async chainStep(chainKey: Uint8Array): Promise<{ chainKey: Uint8Array; messageKey: Uint8Array }> {
+    const hmacKey = await window.crypto.subtle.importKey(
+      'raw',
+      chainKey,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    const [messageKey, nextChainKey] = await Promise.all([
+      window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x01])),
+      window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x02]))
+    ]);
+
+    return {
+      chainKey: new Uint8Array(nextChainKey),
+      messageKey: new Uint8Array(messageKey)
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,138 @@
+import { Identity, KeyPair, SigningKeyPair } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+
+const DB_NAME = 'cipher-identity';
+const KEY_STORE = 'keys';
+const IDENTITY_KEY = 'identity';
+
+// What is kept on disk; the rest is derived from the public keys on load
+interface StoredIdentity {
+  signingKeyPair: SigningKeyPair;
+  keyAgreementPair: KeyPair;
+  createdAt: number;
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    // Another tab holds an older version open; the page falls back to a CA of its own
+    request.onblocked = () => reject(new Error('Identity store is in use by another tab'));
+  });
+
+/**
+ * The device's long-term identity. Its private keys are non-extractable
+ * CryptoKeys kept in IndexedDB, so a page can use them but never read them.
+ */
+export class IdentityKeys {
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.indexedDB;
+  }
+
+  /**
+   * Load this device's identity, creating it on first use
+   */
+  static async load(): Promise<Identity> {
+    if (!this.isSupported()) {
+      return this.describe(await this.generate(), false);
+    }
+
+    const db = await openDatabase();
+    try {
+      const existing: StoredIdentity | undefined = await toPromise(
+        db.transaction(KEY_STORE).objectStore(KEY_STORE).get(IDENTITY_KEY)
+      );
+      if (existing) {
+        return this.describe(existing, true);
+      }
+
+      const created = await this.generate();
+      try {
+        await toPromise(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).add(created, IDENTITY_KEY));
+        return this.describe(created, true);
+      } catch {
+        // Another tab created one first; everyone uses that one
+        const winner: StoredIdentity = await toPromise(
+          db.transaction(KEY_STORE).objectStore(KEY_STORE).get(IDENTITY_KEY)
+        );
+        return this.describe(winner, true);
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Replace the identity with a new one. Peers who pinned the old one will
+   * see a different key.
+   */
+  static async replace(): Promise<Identity> {
+    const created = await this.generate();
+    if (!this.isSupported()) {
+      return this.describe(created, false);
+    }
+    const db = await openDatabase();
+    try {
+      await toPromise(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(created, IDENTITY_KEY));
+    } finally {
+      db.close();
+    }
+    return this.describe(created, true);
+  }
+
+  /**
+   * Fingerprint of an identity's Base64 signing public key: hex SHA-256 in
+   * groups of four, for people to compare
+   */
+  static async fingerprint(publicKey: string): Promise<string> {
+    const digest = await window.crypto.subtle.digest('SHA-256', base64ToArrayBuffer(publicKey));
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return hex.match(/.{4}/g)!.join(' ');
+  }
+
+  /**
+   * The issuer id of an identity, derived from its key so it stays the same
+   * for as long as the key does
+   */
+  static async issuerId(publicKey: string): Promise<string> {
+    const fingerprint = await this.fingerprint(publicKey);
+    return 'cipher-id-' + fingerprint.replace(/ /g, '').slice(0, 16);
+  }
+
+  private static async generate(): Promise<StoredIdentity> {
+    const [signing, keyAgreement] = await Promise.all([
+      window.crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']),
+      window.crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveKey', 'deriveBits'])
+    ]);
+    return {
+      signingKeyPair: { publicKey: signing.publicKey, privateKey: signing.privateKey },
+      keyAgreementPair: { publicKey: keyAgreement.publicKey, privateKey: keyAgreement.privateKey },
+      createdAt: Date.now()
+    };
+  }
+
+  private static async describe(stored: StoredIdentity, persisted: boolean): Promise<Identity> {
+    const publicKey = arrayBufferToBase64(await window.crypto.subtle.exportKey('raw', stored.signingKeyPair.publicKey));
+    const keyAgreementKey = arrayBufferToBase64(
+      await window.crypto.subtle.exportKey('raw', stored.keyAgreementPair.publicKey)
+    );
+    return {
+      id: await this.issuerId(publicKey),
+      fingerprint: await this.fingerprint(publicKey),
+      publicKey,
+      keyAgreementKey,
+      signingKeyPair: stored.signingKeyPair,
+      keyAgreementPair: stored.keyAgreementPair,
+      createdAt: stored.createdAt,
+      persisted
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { Certificate, CertificateAuthority, PairingRequest, PairingResponse } from '../types';
+import { CertificateManager } from './certificates';
+import { DigitalSigner } from './signing';
+import { TrustStore } from './trustStore';
+
+/**
+ * Signed pairing handshake between a joiner and a room creator
+ */
+export class PairingHandshake {
+  /**
+   * Data covered by a pairing request signature
+   */
+  private static requestTranscript(
+    pairingCode: string,
+    publicKey: string,
+    certificate: Certificate,
+    issuer: CertificateAuthority
+  ): string {
+    return JSON.stringify({
+      type: 'pairing-request',
+      pairingCode,
+      publicKey,
+      certificate,
+      issuer: { id: issuer.id, name: issuer.name, publicKey: issuer.publicKey }
+    });
+  }
+
+  /**
+   * Data covered by a pairing response signature. It includes the request's
+   * ECDH key so a response cannot be replayed against a different joiner.
+   */
+  private static responseTranscript(
+    request: PairingRequest,
+    publicKey: string,
+    certificate: Certificate,
+    issuer: CertificateAuthority,
+    accepted: boolean
+  ): string {
+    return JSON.stringify({
+      type: 'pairing-response',
+      pairingCode: request.pairingCode,
+      requestPublicKey: request.publicKey,
+      publicKey,
+      certificate,
+      issuer: { id: issuer.id, name: issuer.name, publicKey: issuer.publicKey },
+      accepted
+    });
+  }
+
+  /**
+   * The public key of our own certificate's issuer, sent so the other side
+   * can check the certificate
+   */
+  private static ownIssuer(certificate: Certificate): CertificateAuthority {
+    const anchor = TrustStore.getInstance().get(certificate.issuer);
+    if (!anchor) {
+      throw new Error('Certificate issuer is not trusted');
+    }
+    return { id: anchor.id, name: anchor.name, publicKey: anchor.publicKey };
+  }
+
+  /**
+   * Check the sender's certificate chains to the issuer key it sent, and
+   * that the key is the one already trusted for that issuer, if any. The
+   * issuer is only pinned once the pairing has been accepted.
+   */
+  private static async trustCertificate(certificate: Certificate, issuer: CertificateAuthority): Promise<boolean> {
+    if (issuer.id !== certificate.issuer || !(await TrustStore.keyMatchesId(issuer))) {
+      return false;
+    }
+    const anchor = TrustStore.getInstance().get(issuer.id);
+    if (anchor && anchor.publicKey !== issuer.publicKey) {
+      console.warn(`Issuer ${issuer.id} does not match the key pinned for it`);
+      return false;
+    }
+    return CertificateManager.getInstance().verifyCertificate(certificate, issuer.publicKey);
+  }
+
+  /**
+   * Check a signature against the key in the signer's own certificate
+   */
+  private static async verifySigner(
+    data: string,
+    signature: string,
+    certificate: Certificate
+  ): Promise<boolean> {
+    try {
+      const signerKey = await CertificateManager.getInstance().importPublicKey(certificate.publicKey);
+      return await DigitalSigner.verifySignature(data, signature, signerKey);
+    } catch (error) {
+      console.error('Pairing signature verification failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a signed request to join a room
+   */
+  static async createRequest(
+    pairingCode: string,
+    publicKey: string,
+    certificate: Certificate,
+    privateKey: CryptoKey
+  ): Promise<PairingRequest> {
+    const issuer = this.ownIssuer(certificate);
+    const signature = await DigitalSigner.signData(
+      this.requestTranscript(pairingCode, publicKey, certificate, issuer),
+      privateKey
+    );
+
+    return {
+      type: 'pairing-request',
+      pairingCode,
+      publicKey,
+      certificate,
+      issuer,
+      signature
+    };
+  }
+
+  /**
+   * Verify a request was signed by its certificate holder for this room,
+   * and that the certificate was issued by its issuer
+   */
+  static async verifyRequest(request: PairingRequest, pairingCode: string): Promise<boolean> {
+    if (request.type !== 'pairing-request' || request.pairingCode !== pairingCode || !request.issuer) {
+      return false;
+    }
+
+    const signed = await this.verifySigner(
+      this.requestTranscript(request.pairingCode, request.publicKey, request.certificate, request.issuer),
+      request.signature,
+      request.certificate
+    );
+    return signed && this.trustCertificate(request.certificate, request.issuer);
+  }
+
+  /**
+   * Create a signed answer to a pairing request
+   */
+  static async createResponse(
+    request: PairingRequest,
+    publicKey: string,
+    certificate: Certificate,
+    privateKey: CryptoKey,
+    accepted: boolean
+  ): Promise<PairingResponse> {
+    const issuer = this.ownIssuer(certificate);
+    const signature = await DigitalSigner.signData(
+      this.responseTranscript(request, publicKey, certificate, issuer, accepted),
+      privateKey
+    );
+
+    return {
+      type: 'pairing-response',
+      publicKey,
+      certificate,
+      issuer,
+      accepted,
+      signature
+    };
+  }
+
+  /**
+   * Verify a response answers our request and was signed by its certificate
+   * holder, and that the certificate was issued by its issuer
+   */
+  static async verifyResponse(response: PairingResponse, request: PairingRequest): Promise<boolean> {
+    if (response.type !== 'pairing-response' || !response.issuer) {
+      return false;
+    }
+
+    const signed = await this.verifySigner(
+      this.responseTranscript(request, response.publicKey, response.certificate, response.issuer, response.accepted),
+      response.signature,
+      response.certificate
+    );
+    return signed && this.trustCertificate(response.certificate, response.issuer);
+  }
+}
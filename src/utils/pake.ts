@@ -0,0 +1,317 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+
+export type PakeRole = 'joiner' | 'creator';
+
+// P-256 domain parameters (SEC 2); a = -3
+const P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+const N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+const B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn;
+const G = {
+  x: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+  y: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n
+};
+
+// SPAKE2 blinding points for P-256 from RFC 9382; nobody knows their
+// discrete logarithms
+const M_POINT = '02886e2f97ace46e55ba9dd7242579f2993b64e16ef3dcab95afd497333d8fa12f';
+const N_POINT = '03d8bbd6c639c62937b04d997f38c3770719c629d7014d49a24b4f98baa1292b49';
+
+// Letters and digits that cannot be misread for one another
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_LENGTH = 4;
+const SECRET_LENGTH = 6;
+
+const encoder = new TextEncoder();
+
+interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+// Jacobian coordinates, so adding points needs no inversions; z = 0 is the
+// point at infinity
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+const mod = (value: bigint, modulus: bigint = P): bigint => {
+  const result = value % modulus;
+  return result >= 0n ? result : result + modulus;
+};
+
+const power = (base: bigint, exponent: bigint, modulus: bigint = P): bigint => {
+  let result = 1n;
+  let square = mod(base, modulus);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) {
+      result = (result * square) % modulus;
+    }
+    square = (square * square) % modulus;
+  }
+  return result;
+};
+
+const INFINITY: JacobianPoint = { x: 1n, y: 1n, z: 0n };
+
+const double = (point: JacobianPoint): JacobianPoint => {
+  if (point.z === 0n || point.y === 0n) {
+    return INFINITY;
+  }
+  const ySquared = mod(point.y * point.y);
+  const s = mod(4n * point.x * ySquared);
+  const zSquared = mod(point.z * point.z);
+  const m = mod(3n * (point.x - zSquared) * (point.x + zSquared));
+  const x = mod(m * m - 2n * s);
+  return {
+    x,
+    y: mod(m * (s - x) - 8n * ySquared * ySquared),
+    z: mod(2n * point.y * point.z)
+  };
+};
+
+const add = (a: JacobianPoint, b: JacobianPoint): JacobianPoint => {
+  if (a.z === 0n) {
+    return b;
+  }
+  if (b.z === 0n) {
+    return a;
+  }
+  const aZSquared = mod(a.z * a.z);
+  const bZSquared = mod(b.z * b.z);
+  const u1 = mod(a.x * bZSquared);
+  const u2 = mod(b.x * aZSquared);
+  const s1 = mod(a.y * bZSquared * b.z);
+  const s2 = mod(b.y * aZSquared * a.z);
+  if (u1 === u2) {
+    return s1 === s2 ? double(a) : INFINITY;
+  }
+  const h = mod(u2 - u1);
+  const r = mod(s2 - s1);
+  const hSquared = mod(h * h);
+  const hCubed = mod(hSquared * h);
+  const x = mod(r * r - hCubed - 2n * u1 * hSquared);
+  return {
+    x,
+    y: mod(r * (u1 * hSquared - x) - s1 * hCubed),
+    z: mod(h * a.z * b.z)
+  };
+};
+
+const multiply = (point: JacobianPoint, scalar: bigint): JacobianPoint => {
+  const k = mod(scalar, N);
+  let result = INFINITY;
+  for (let bit = BigInt(k.toString(2).length - 1); bit >= 0n; bit--) {
+    result = double(result);
+    if ((k >> bit) & 1n) {
+      result = add(result, point);
+    }
+  }
+  return result;
+};
+
+const toJacobian = (point: Point): JacobianPoint => ({ x: point.x, y: point.y, z: 1n });
+
+const toAffine = (point: JacobianPoint): Point => {
+  if (point.z === 0n) {
+    throw new Error('Point at infinity');
+  }
+  const zInverse = power(point.z, P - 2n);
+  const zInverseSquared = mod(zInverse * zInverse);
+  return { x: mod(point.x * zInverseSquared), y: mod(point.y * zInverseSquared * zInverse) };
+};
+
+const negate = (point: JacobianPoint): JacobianPoint => ({ ...point, y: mod(-point.y) });
+
+const bytesToBigInt = (bytes: Uint8Array): bigint =>
+  bytes.reduce((total, byte) => (total << 8n) | BigInt(byte), 0n);
+
+const bigIntToBytes = (value: bigint): Uint8Array => {
+  const bytes = new Uint8Array(32);
+  for (let i = 31, rest = value; i >= 0; i--, rest >>= 8n) {
+    bytes[i] = Number(rest & 0xffn);
+  }
+  return bytes;
+};
+
+const curveY = (x: bigint): bigint => mod(x * x * x - 3n * x + B);
+
+// Uncompressed SEC 1 encoding, the same form WebCrypto exports raw keys in
+const encodePoint = (point: JacobianPoint): Uint8Array => {
+  const { x, y } = toAffine(point);
+  const bytes = new Uint8Array(65);
+  bytes[0] = 4;
+  bytes.set(bigIntToBytes(x), 1);
+  bytes.set(bigIntToBytes(y), 33);
+  return bytes;
+};
+
+// Reads compressed or uncompressed points, refusing anything off the curve
+const decodePoint = (bytes: Uint8Array): JacobianPoint => {
+  const x = bytesToBigInt(bytes.subarray(1, 33));
+  let y: bigint;
+  if (bytes.length === 65 && bytes[0] === 4) {
+    y = bytesToBigInt(bytes.subarray(33));
+  } else if (bytes.length === 33 && (bytes[0] === 2 || bytes[0] === 3)) {
+    // p = 3 mod 4, so a square root is a power
+    y = power(curveY(x), (P + 1n) / 4n);
+    if ((y & 1n) !== BigInt(bytes[0] & 1)) {
+      y = mod(-y);
+    }
+  } else {
+    throw new Error('Invalid point encoding');
+  }
+  if (x >= P || y >= P || mod(y * y) !== curveY(x)) {
+    throw new Error('Point is not on the curve');
+  }
+  return { x, y, z: 1n };
+};
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array(hex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Uniform below the group order: 128 bits more than it needs, then reduced
+const randomScalar = (): bigint => {
+  for (;;) {
+    const scalar = mod(bytesToBigInt(window.crypto.getRandomValues(new Uint8Array(48))), N);
+    if (scalar !== 0n) {
+      return scalar;
+    }
+  }
+};
+
+/**
+ * SPAKE2 (RFC 9382) over P-256, keyed by the secret half of a pairing code.
+ * Each side sends one share; both end up with the same key only if they used
+ * the same code, and someone watching the shares cannot test guesses at the
+ * code offline. Proofs made with the key bind the rest of the handshake, so
+ * the code is checked without ever being sent.
+ *
+ * The arithmetic is plain BigInt rather than constant time, which is fine
+ * for keys that live for one handshake.
+ */
+export class PairingPake {
+  private ownKey: CryptoKey | null = null; // HMAC key for our proofs
+  private peerKey: CryptoKey | null = null; // HMAC key for theirs
+
+  private constructor(
+    private readonly role: PakeRole,
+    private readonly roomCode: string,
+    private readonly joinerId: string,
+    private readonly password: bigint,
+    private readonly scalar: bigint,
+    readonly share: string // Base64 point to send to the other side
+  ) {}
+
+  /**
+   * A new pairing code: the room to look up, then the secret
+   */
+  static generateCode(): string {
+    // 32 letters divide 256, so every one is as likely
+    const pick = (length: number) =>
+      Array.from(window.crypto.getRandomValues(new Uint8Array(length)), byte => CODE_ALPHABET[byte % 32]).join('');
+    return `${pick(ROOM_LENGTH)}-${pick(SECRET_LENGTH)}`;
+  }
+
+  /**
+   * Split a pairing code as people type it; null when it is not one
+   */
+  static parseCode(code: string): { roomCode: string; secret: string } | null {
+    const match = code.toUpperCase().replace(/[\s-]/g, '').match(
+      new RegExp(`^([${CODE_ALPHABET}]{${ROOM_LENGTH}})([${CODE_ALPHABET}]{${SECRET_LENGTH}})$`)
+    );
+    return match ? { roomCode: match[1], secret: match[2] } : null;
+  }
+
+  /**
+   * Start one side of the exchange for a joiner
+   */
+  static async start(role: PakeRole, roomCode: string, secret: string, joinerId: string): Promise<PairingPake> {
+    const password = await this.passwordScalar(roomCode, secret);
+    const scalar = randomScalar();
+    const blind = decodePoint(hexToBytes(role === 'joiner' ? M_POINT : N_POINT));
+    const share = add(multiply(toJacobian(G), scalar), multiply(blind, password));
+    return new PairingPake(role, roomCode, joinerId, password, scalar, arrayBufferToBase64(encodePoint(share)));
+  }
+
+  /**
+   * Take the other side's share and derive the proof keys. Throws when the
+   * share is not a usable point.
+   */
+  async finish(peerShare: string): Promise<void> {
+    const peerPoint = decodePoint(base64ToArrayBuffer(peerShare));
+    const peerBlind = decodePoint(hexToBytes(this.role === 'joiner' ? N_POINT : M_POINT));
+    const key = multiply(add(peerPoint, negate(multiply(peerBlind, this.password))), this.scalar);
+    if (key.z === 0n) {
+      throw new Error('Invalid PAKE share');
+    }
+
+    const [joinerShare, creatorShare] = this.role === 'joiner' ? [this.share, peerShare] : [peerShare, this.share];
+    const transcript = JSON.stringify({
+      type: 'cipher-pake',
+      version: 1,
+      roomCode: this.roomCode,
+      joiner: this.joinerId,
+      joinerShare,
+      creatorShare,
+      key: toHex(encodePoint(key)),
+      password: toHex(bigIntToBytes(this.password))
+    });
+    const material = await window.crypto.subtle.importKey(
+      'raw',
+      await window.crypto.subtle.digest('SHA-256', encoder.encode(transcript)),
+      'HKDF',
+      false,
+      ['deriveKey']
+    );
+    const proofKey = (role: PakeRole) =>
+      window.crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: encoder.encode(`cipher-pake-${role}`) },
+        material,
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+      );
+    this.ownKey = await proofKey(this.role);
+    this.peerKey = await proofKey(this.role === 'joiner' ? 'creator' : 'joiner');
+  }
+
+  /**
+   * Prove we know the code, bound to data such as our handshake signature
+   */
+  async prove(data: string): Promise<string> {
+    if (!this.ownKey) {
+      throw new Error('PAKE exchange not finished');
+    }
+    return arrayBufferToBase64(await window.crypto.subtle.sign('HMAC', this.ownKey, encoder.encode(data)));
+  }
+
+  /**
+   * Check the other side's proof over the same data
+   */
+  async check(data: string, proof: string): Promise<boolean> {
+    if (!this.peerKey) {
+      return false;
+    }
+    try {
+      return await window.crypto.subtle.verify('HMAC', this.peerKey, base64ToArrayBuffer(proof), encoder.encode(data));
+    } catch {
+      return false;
+    }
+  }
+
+  // The code's secret stretched to a scalar, salted with the room
+  private static async passwordScalar(roomCode: string, secret: string): Promise<bigint> {
+    const material = await window.crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveBits']);
+    const bits = await window.crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(roomCode), info: encoder.encode('cipher-pake-password') },
+      material,
+      384
+    );
+    return mod(bytesToBigInt(new Uint8Array(bits)), N);
+  }
+}
@@ -0,0 +1,107 @@
+import { Certificate, DisconnectMessage, PresenceMessage, RoomClosedMessage } from '../types';
+import { CertificateManager } from './certificates';
+import { DigitalSigner } from './signing';
+
+/**
+ * Signed presence heartbeats, disconnect notices and room closings for a room
+ */
+export class PresenceSigner {
+  // Older notices are rejected, so a captured one cannot be replayed later
+  static readonly MAX_AGE_MS = 2 * 60 * 1000;
+
+  /**
+   * Data covered by a presence, disconnect or room closed signature
+   */
+  private static transcript(
+    roomCode: string,
+    message: Omit<PresenceMessage, 'signature'> | Omit<DisconnectMessage, 'signature'> | Omit<RoomClosedMessage, 'signature'>
+  ): string {
+    return JSON.stringify({
+      roomCode,
+      type: message.type,
+      state: message.type === 'presence' ? message.state : null,
+      typing: message.type === 'presence' ? message.typing : null,
+      timestamp: message.timestamp,
+      certificateId: message.certificate.id
+    });
+  }
+
+  /**
+   * Create a signed heartbeat
+   */
+  static async createHeartbeat(
+    roomCode: string,
+    state: PresenceMessage['state'],
+    typing: boolean,
+    timestamp: number,
+    certificate: Certificate,
+    privateKey: CryptoKey
+  ): Promise<PresenceMessage> {
+    const message = { type: 'presence' as const, state, typing, timestamp, certificate };
+    return {
+      ...message,
+      signature: await DigitalSigner.signData(this.transcript(roomCode, message), privateKey)
+    };
+  }
+
+  /**
+   * Create a signed disconnect notice. It is signed ahead of time so it can
+   * be sent from a `pagehide` handler, which cannot wait for WebCrypto.
+   */
+  static async createDisconnect(
+    roomCode: string,
+    timestamp: number,
+    certificate: Certificate,
+    privateKey: CryptoKey
+  ): Promise<DisconnectMessage> {
+    const message = { type: 'disconnect' as const, timestamp, certificate };
+    return {
+      ...message,
+      signature: await DigitalSigner.signData(this.transcript(roomCode, message), privateKey)
+    };
+  }
+
+  /**
+   * Create the creator's signed notice that the room is closed
+   */
+  static async createRoomClosed(
+    roomCode: string,
+    timestamp: number,
+    certificate: Certificate,
+    privateKey: CryptoKey
+  ): Promise<RoomClosedMessage> {
+    const message = { type: 'room_closed' as const, timestamp, certificate };
+    return {
+      ...message,
+      signature: await DigitalSigner.signData(this.transcript(roomCode, message), privateKey)
+    };
+  }
+
+  /**
+   * Verify a notice is recent and was signed with the member's pinned certificate
+   */
+  static async verify(
+    message: PresenceMessage | DisconnectMessage | RoomClosedMessage,
+    roomCode: string,
+    memberCert: Certificate
+  ): Promise<boolean> {
+    if (
+      message.certificate?.id !== memberCert.id ||
+      Math.abs(Date.now() - message.timestamp) > this.MAX_AGE_MS
+    ) {
+      return false;
+    }
+
+    try {
+      const signerKey = await CertificateManager.getInstance().importPublicKey(memberCert.publicKey);
+      return await DigitalSigner.verifySignature(
+        this.transcript(roomCode, message),
+        message.signature,
+        signerKey
+      );
+    } catch (error) {
+      console.error('Presence signature verification failed:', error);
+      return false;
+    }
+  }
+}
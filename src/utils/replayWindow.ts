@@ -0,0 +1,66 @@
+import { ReplayWindowState } from '../types';
+
+export type ReplayVerdict = 'fresh' | 'duplicate' | 'stale';
+
+/**
+ * Sliding window over the sequence numbers received from one sender.
+ * Sequences inside the window may arrive out of order, but only once;
+ * anything that fell behind the window is rejected outright.
+ */
+export class ReplayWindow {
+  static readonly SIZE = 256;
+
+  private highest = 0;
+  private seen = new Set<number>();
+
+  /**
+   * Whether a sequence number may still be accepted
+   */
+  check(sequence: number): ReplayVerdict {
+    if (!Number.isSafeInteger(sequence) || sequence < 1 || sequence <= this.highest - ReplayWindow.SIZE) {
+      return 'stale';
+    }
+    return this.seen.has(sequence) ? 'duplicate' : 'fresh';
+  }
+
+  /**
+   * Record a sequence number once its message was accepted. Returns how
+   * many sequence numbers it skipped past, which stay open in the window
+   * for late arrivals.
+   */
+  accept(sequence: number): number {
+    const skipped = Math.max(0, sequence - this.highest - 1);
+    this.seen.add(sequence);
+
+    if (sequence > this.highest) {
+      this.highest = sequence;
+      this.seen.forEach(seen => {
+        if (seen <= this.highest - ReplayWindow.SIZE) {
+          this.seen.delete(seen);
+        }
+      });
+    }
+    return skipped;
+  }
+
+  /**
+   * Whether a sequence number arrived after a later one
+   */
+  isLate(sequence: number): boolean {
+    return sequence < this.highest;
+  }
+
+  serialize(): ReplayWindowState {
+    return { highest: this.highest, seen: Array.from(this.seen) };
+  }
+
+  /**
+   * Rebuild a window from serialize()
+   */
+  static restore(state: ReplayWindowState): ReplayWindow {
+    const replayWindow = new ReplayWindow();
+    replayWindow.highest = state.highest;
+    replayWindow.seen = new Set(state.seen);
+    return replayWindow;
+  }
+}
@@ -0,0 +1,79 @@
+import { Message, QuoteState, ReplyQuote } from '../types';
+
+/**
+ * Quotes embedded in replies. The quote travels inside the signed reply,
+ * so what was answered stays readable even if the original is edited,
+ * deleted or never arrived; receivers compare it with their own copy.
+ */
+export class ReplyQuotes {
+  // Longest excerpt a quote may carry
+  static readonly EXCERPT_LENGTH = 140;
+
+  /**
+   * Quote a message to reply to it
+   */
+  static create(message: Message): ReplyQuote {
+    return {
+      messageId: message.id,
+      senderId: message.senderId || '',
+      type: message.type,
+      excerpt: this.excerpt(message.type, message.documentInfo?.name || message.content)
+    };
+  }
+
+  /**
+   * Check a received quote's shape and cut it down to size
+   */
+  static sanitize(quote: unknown): ReplyQuote | undefined {
+    const candidate = quote as Partial<ReplyQuote> | null | undefined;
+    if (
+      typeof candidate?.messageId !== 'string' ||
+      typeof candidate.senderId !== 'string' ||
+      typeof candidate.excerpt !== 'string' ||
+      !['text', 'image', 'audio', 'document'].includes(candidate.type as string)
+    ) {
+      return undefined;
+    }
+    return {
+      messageId: candidate.messageId,
+      senderId: candidate.senderId,
+      type: candidate.type as ReplyQuote['type'],
+      excerpt: candidate.excerpt.slice(0, this.EXCERPT_LENGTH)
+    };
+  }
+
+  /**
+   * Compare a quote with the original message, if we have it
+   */
+  static check(quote: ReplyQuote, original: Message | undefined): QuoteState {
+    if (!original) {
+      return 'missing';
+    }
+    if (original.senderId !== quote.senderId) {
+      return 'mismatch';
+    }
+    if (original.deleted) {
+      return 'deleted';
+    }
+    if (original.type !== 'text') {
+      return 'current';
+    }
+    if (this.excerpt('text', original.content) === quote.excerpt) {
+      return 'current';
+    }
+    return (original.revisions || []).some(revision => this.excerpt('text', revision.content) === quote.excerpt)
+      ? 'edited'
+      : 'mismatch';
+  }
+
+  private static excerpt(type: Message['type'], text: string): string {
+    switch (type) {
+      case 'image':
+        return 'Image';
+      case 'audio':
+        return 'Voice message';
+      default:
+        return text.length > this.EXCERPT_LENGTH ? `${text.slice(0, this.EXCERPT_LENGTH - 1)}…` : text;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { Certificate, SafetyNumber } from '../types';
+
+// One side of a pairwise session, as both ends of it saw the handshake
+export interface SafetyParty {
+  identityKey: string; // Base64 ECDSA public key of the identity behind the certificate
+  certificate: Certificate;
+  sessionKey: string; // Base64 ECDH public key the session was agreed with
+}
+
+// 64 emoji, so each one carries six bits of the hash
+const EMOJI: [string, string][] = [
+  ['🐶', 'Dog'], ['🐱', 'Cat'], ['🦁', 'Lion'], ['🐎', 'Horse'], ['🦄', 'Unicorn'], ['🐷', 'Pig'], ['🐘', 'Elephant'], ['🐰', 'Rabbit'],
+  ['🐼', 'Panda'], ['🐓', 'Rooster'], ['🐧', 'Penguin'], ['🐢', 'Turtle'], ['🐟', 'Fish'], ['🐙', 'Octopus'], ['🦋', 'Butterfly'], ['🌷', 'Flower'],
+  ['🌳', 'Tree'], ['🌵', 'Cactus'], ['🍄', 'Mushroom'], ['🌏', 'Globe'], ['🌙', 'Moon'], ['☁️', 'Cloud'], ['🔥', 'Fire'], ['🍌', 'Banana'],
+  ['🍎', 'Apple'], ['🍓', 'Strawberry'], ['🌽', 'Corn'], ['🍕', 'Pizza'], ['🎂', 'Cake'], ['❤️', 'Heart'], ['😀', 'Smiley'], ['🤖', 'Robot'],
+  ['🎩', 'Hat'], ['👓', 'Glasses'], ['🔧', 'Spanner'], ['🎅', 'Santa'], ['👍', 'Thumbs up'], ['☂️', 'Umbrella'], ['⌛', 'Hourglass'], ['⏰', 'Clock'],
+  ['🎁', 'Gift'], ['💡', 'Light bulb'], ['📕', 'Book'], ['✏️', 'Pencil'], ['📎', 'Paperclip'], ['✂️', 'Scissors'], ['🔒', 'Lock'], ['🔑', 'Key'],
+  ['🔨', 'Hammer'], ['☎️', 'Telephone'], ['🏁', 'Flag'], ['🚂', 'Train'], ['🚲', 'Bicycle'], ['✈️', 'Aeroplane'], ['🚀', 'Rocket'], ['🏆', 'Trophy'],
+  ['⚽', 'Ball'], ['🎸', 'Guitar'], ['🎺', 'Trumpet'], ['🔔', 'Bell'], ['⚓', 'Anchor'], ['🎧', 'Headphones'], ['📁', 'Folder'], ['📌', 'Pin']
+];
+
+const DIGIT_GROUPS = 6;
+const EMOJI_COUNT = 7;
+
+/**
+ * Safety numbers for pairwise sessions. Both ends hash the same transcript:
+ * the room, and for each side its identity's signing and ECDH keys, its
+ * signed certificate and the ECDH key the session was agreed with. Anyone
+ * who swapped a key in the middle would leave the two ends with different
+ * numbers.
+ */
+export class SafetyNumbers {
+  static async derive(roomCode: string, a: SafetyParty, b: SafetyParty): Promise<SafetyNumber> {
+    // Ordered the same way on both ends
+    const parties = [a, b]
+      .map(({ identityKey, certificate, sessionKey }) => ({
+        identityKey,
+        keyAgreementKey: certificate.keyAgreementKey ?? null, // Signed into the certificate by the identity
+        certificate,
+        sessionKey
+      }))
+      .sort((x, y) => (x.certificate.id < y.certificate.id ? -1 : x.certificate.id > y.certificate.id ? 1 : 0));
+    const transcript = JSON.stringify({ type: 'cipher-safety-number', version: 2, roomCode, parties });
+    const hash = new Uint8Array(
+      await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(transcript))
+    );
+
+    // Five digits from each five bytes, as Signal does
+    const groups: string[] = [];
+    for (let i = 0; i < DIGIT_GROUPS; i++) {
+      const value = hash.slice(i * 5, i * 5 + 5).reduce((total, byte) => total * 256 + byte, 0);
+      groups.push(String(value % 100000).padStart(5, '0'));
+    }
+
+    // Six bits per emoji, taken from the start of the hash
+    const emoji: SafetyNumber['emoji'] = [];
+    for (let i = 0; i < EMOJI_COUNT; i++) {
+      const bit = i * 6;
+      const word = (hash[bit >> 3] << 8) | hash[(bit >> 3) + 1];
+      const [symbol, name] = EMOJI[(word >> (10 - (bit & 7))) & 63];
+      emoji.push({ emoji: symbol, name });
+    }
+
+    return { digits: groups.join(' '), emoji };
+  }
+}
@@ -0,0 +1,159 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SenderKeyHeader, SenderKeyState } from '../types';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
+import { ForwardSecrecy } from './forwardSecrecy';
+
+// Most message keys skipped in one step; group traffic interleaves more
+const MAX_SKIP = 200;
+const MAX_STORED_SKIPPED_KEYS = 500;
+
+export interface SenderKeyCiphertext {
+  header: SenderKeyHeader;
+  data: string; // Base64 AES-GCM ciphertext
+  iv: string; // Base64
+}
+
+const encoder = new TextEncoder();
+
+async function messageCipherKey(messageKey: Uint8Array): Promise<CryptoKey> {
+  const keyMaterial = await window.crypto.subtle.importKey('raw', messageKey, 'HKDF', false, ['deriveKey']);
+  return ForwardSecrecy.deriveMessageKey(keyMaterial, new Uint8Array(32), 'cipher-chat-sender-key');
+}
+
+/**
+ * Sender key chain for group rooms. Each member encrypts its group
+ * messages once with its own chain and hands the chain to the other
+ * members over the pairwise Double Ratchet sessions. A fresh key replaces
+ * it whenever someone joins or leaves, so neither can read the other side
+ * of the change.
+ */
+export class SenderKey {
+  // Operations mutate the chain, so they run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(private state: SenderKeyState) {}
+
+  /**
+   * Start a new chain for our own messages
+   */
+  static create(): SenderKey {
+    return new SenderKey({
+      keyId: uuidv4(),
+      chainKey: arrayBufferToBase64(window.crypto.getRandomValues(new Uint8Array(32))),
+      n: 0,
+      skippedKeys: []
+    });
+  }
+
+  /**
+   * Rebuild a chain from serialize() or a member's distribution()
+   */
+  static restore(state: SenderKeyState): SenderKey {
+    return new SenderKey(structuredClone(state));
+  }
+
+  get keyId(): string {
+    return this.state.keyId;
+  }
+
+  serialize(): SenderKeyState {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * The chain as handed to other members: from the next message on, with
+   * none of our own history
+   */
+  distribution(): SenderKeyState {
+    return { ...this.serialize(), skippedKeys: [] };
+  }
+
+  /**
+   * Encrypt with the next key of the chain
+   */
+  encrypt(plaintext: string): Promise<SenderKeyCiphertext> {
+    return this.exclusive(async () => {
+      const step = await ForwardSecrecy.chainStep(base64ToArrayBuffer(this.state.chainKey));
+      const header: SenderKeyHeader = { keyId: this.state.keyId, n: this.state.n };
+      const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+      const ciphertext = await window.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(JSON.stringify(header)) },
+        await messageCipherKey(step.messageKey),
+        encoder.encode(plaintext)
+      );
+
+      this.state.chainKey = arrayBufferToBase64(step.chainKey);
+      this.state.n += 1;
+
+      return {
+        header,
+        data: arrayBufferToBase64(ciphertext),
+        iv: arrayBufferToBase64(iv)
+      };
+    });
+  }
+
+  /**
+   * Decrypt a member's message. The chain only moves forward if the
+   * message authenticates.
+   */
+  decrypt(message: SenderKeyCiphertext): Promise<string> {
+    return this.exclusive(async () => {
+      const { header } = message;
+      if (header.keyId !== this.state.keyId) {
+        throw new Error('Message uses a different sender key');
+      }
+
+      const draft = structuredClone(this.state);
+      let messageKey: Uint8Array;
+
+      if (header.n < draft.n) {
+        const index = draft.skippedKeys.findIndex(([n]) => n === header.n);
+        if (index === -1) {
+          throw new Error('Message key already used or discarded');
+        }
+        messageKey = base64ToArrayBuffer(draft.skippedKeys.splice(index, 1)[0][1]);
+      } else {
+        if (header.n - draft.n > MAX_SKIP) {
+          throw new Error('Too many skipped messages');
+        }
+
+        let chainKey = base64ToArrayBuffer(draft.chainKey);
+        let step = await ForwardSecrecy.chainStep(chainKey);
+        while (draft.n < header.n) {
+          draft.skippedKeys.push([draft.n, arrayBufferToBase64(step.messageKey)]);
+          chainKey = step.chainKey;
+          draft.n += 1;
+          step = await ForwardSecrecy.chainStep(chainKey);
+        }
+        draft.chainKey = arrayBufferToBase64(step.chainKey);
+        draft.n += 1;
+        messageKey = step.messageKey;
+
+        if (draft.skippedKeys.length > MAX_STORED_SKIPPED_KEYS) {
+          draft.skippedKeys.splice(0, draft.skippedKeys.length - MAX_STORED_SKIPPED_KEYS);
+        }
+      }
+
+      const plaintext = await window.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: base64ToArrayBuffer(message.iv),
+          additionalData: encoder.encode(JSON.stringify(header))
+        },
+        await messageCipherKey(messageKey),
+        base64ToArrayBuffer(message.data)
+      );
+
+      this.state = draft;
+      return new TextDecoder().decode(plaintext);
+    });
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,169 @@
+import { base64ToArrayBuffer, arrayBufferToBase64 } from './encoding';
+import { DigitalSigner } from './signing';
+import { CertificateManager } from './certificates';
+import { Certificate, KeyPair, ResumeToken, SessionSnapshot } from '../types';
+
+// The sealed snapshot lives in sessionStorage, so it goes with the tab
+const SNAPSHOT_KEY = 'cipher-session';
+const TAB_ID_KEY = 'cipher-tab';
+
+// Its key lives in IndexedDB, which can hold a key that cannot be exported
+const DB_NAME = 'cipher-resume';
+const KEY_STORE = 'keys';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one request against the key store
+const withKeyStore = async <T>(mode: IDBTransactionMode, use: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = use(db.transaction(KEY_STORE, mode).objectStore(KEY_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const tabId = (): string => {
+  let id = sessionStorage.getItem(TAB_ID_KEY);
+  if (!id) {
+    id = arrayBufferToBase64(window.crypto.getRandomValues(new Uint8Array(16)));
+    sessionStorage.setItem(TAB_ID_KEY, id);
+  }
+  return id;
+};
+
+// Data covered by a resume token's signature
+const tokenTranscript = (token: Omit<ResumeToken, 'signature'>): string =>
+  JSON.stringify({ type: 'resume', roomCode: token.roomCode, memberId: token.memberId, resumedAt: token.resumedAt });
+
+/**
+ * Keeps a paired session across page reloads. The snapshot is sealed with
+ * AES-GCM and kept in sessionStorage; the key is non-extractable and kept
+ * in IndexedDB, so neither store alone gives the session away.
+ */
+export class SessionResume {
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.indexedDB && typeof sessionStorage !== 'undefined';
+  }
+
+  static async save(snapshot: SessionSnapshot): Promise<void> {
+    // Serialized before anything async, while its key material is still intact
+    const plain = new TextEncoder().encode(JSON.stringify(snapshot));
+    const key = await this.tabKey(true);
+    if (!key) {
+      return;
+    }
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const data = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      plain
+    );
+    sessionStorage.setItem(SNAPSHOT_KEY, JSON.stringify({
+      iv: arrayBufferToBase64(iv),
+      data: arrayBufferToBase64(data)
+    }));
+  }
+
+  /**
+   * The snapshot saved by this tab before it was reloaded, if any
+   */
+  static async load(): Promise<SessionSnapshot | null> {
+    const sealed = sessionStorage.getItem(SNAPSHOT_KEY);
+    if (!sealed) {
+      return null;
+    }
+    try {
+      const key = await this.tabKey(false);
+      if (!key) {
+        return null;
+      }
+      const { iv, data } = JSON.parse(sealed);
+      const plain = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToArrayBuffer(iv) },
+        key,
+        base64ToArrayBuffer(data)
+      );
+      return JSON.parse(new TextDecoder().decode(plain));
+    } catch (error) {
+      console.error('Failed to open saved session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget the saved session and its key
+   */
+  static async clear(): Promise<void> {
+    sessionStorage.removeItem(SNAPSHOT_KEY);
+    if (this.isSupported()) {
+      await withKeyStore('readwrite', store => store.delete(tabId()));
+    }
+  }
+
+  /**
+   * Key pairs are saved as their private JWK, which carries the public point too
+   */
+  static async exportKeyPair(pair: KeyPair): Promise<JsonWebKey> {
+    return window.crypto.subtle.exportKey('jwk', pair.privateKey);
+  }
+
+  static async importKeyPair(jwk: JsonWebKey, algorithm: 'ECDSA' | 'ECDH'): Promise<KeyPair> {
+    const params = { name: algorithm, namedCurve: 'P-256' };
+    const publicJwk: JsonWebKey = { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y, ext: true };
+    const [privateKey, publicKey] = await Promise.all([
+      window.crypto.subtle.importKey('jwk', jwk, params, true, algorithm === 'ECDSA' ? ['sign'] : ['deriveKey', 'deriveBits']),
+      window.crypto.subtle.importKey('jwk', publicJwk, params, true, algorithm === 'ECDSA' ? ['verify'] : [])
+    ]);
+    return { privateKey, publicKey };
+  }
+
+  /**
+   * Sign the announcement that we are back in the room
+   */
+  static async createToken(roomCode: string, memberId: string, privateKey: CryptoKey): Promise<ResumeToken> {
+    const token = { roomCode, memberId, resumedAt: Date.now() };
+    return { ...token, signature: await DigitalSigner.signData(tokenTranscript(token), privateKey) };
+  }
+
+  /**
+   * Check a member's resume token against the certificate pinned for it
+   */
+  static async verifyToken(token: ResumeToken, roomCode: string, member: Certificate, maxAgeMs: number): Promise<boolean> {
+    if (
+      token?.roomCode !== roomCode ||
+      token.memberId !== member.id ||
+      typeof token.resumedAt !== 'number' ||
+      Math.abs(Date.now() - token.resumedAt) > maxAgeMs
+    ) {
+      return false;
+    }
+    const signerKey = await CertificateManager.getInstance().importPublicKey(member.publicKey);
+    return DigitalSigner.verifySignature(tokenTranscript(token), token.signature, signerKey);
+  }
+
+  // This tab's snapshot key, made on first use when asked to
+  private static async tabKey(create: boolean): Promise<CryptoKey | null> {
+    if (!this.isSupported()) {
+      return null;
+    }
+    const id = tabId();
+    const existing = await withKeyStore<CryptoKey | undefined>('readonly', store => store.get(id));
+    if (existing || !create) {
+      return existing || null;
+    }
+    const key = await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await withKeyStore('readwrite', store => store.put(key, id));
+    return key;
+  }
+}
@@ -0,0 +1,98 @@
+import { Certificate, SignalingBlob } from '../types';
+import { CertificateManager } from './certificates';
+import { arrayBufferToBase64, arrayBufferToString, base64ToArrayBuffer, stringToArrayBuffer } from './encoding';
+import { DigitalSigner } from './signing';
+
+const BLOB_PREFIX = 'CIPHER-SIGNAL:';
+
+/**
+ * Signed offer/answer blobs for copy-paste WebRTC signaling
+ */
+export class SignedSignaling {
+  // Offers and answers older than this are refused
+  static readonly MAX_AGE_MS = 15 * 60 * 1000;
+
+  /**
+   * Data covered by a blob signature
+   */
+  private static transcript(blob: Omit<SignalingBlob, 'signature'>): string {
+    return JSON.stringify({
+      type: blob.type,
+      roomCode: blob.roomCode,
+      sdp: blob.sdp,
+      certificate: blob.certificate,
+      timestamp: blob.timestamp,
+      offerSignature: blob.offerSignature || null
+    });
+  }
+
+  /**
+   * Sign an SDP description and encode it as pasteable text
+   */
+  static async create(
+    type: SignalingBlob['type'],
+    roomCode: string,
+    sdp: string,
+    certificate: Certificate,
+    privateKey: CryptoKey,
+    offer?: SignalingBlob
+  ): Promise<{ blob: SignalingBlob; text: string }> {
+    const unsigned = {
+      type,
+      roomCode,
+      sdp,
+      certificate,
+      timestamp: Date.now(),
+      offerSignature: offer?.signature
+    };
+    const blob: SignalingBlob = {
+      ...unsigned,
+      signature: await DigitalSigner.signData(this.transcript(unsigned), privateKey)
+    };
+
+    const encoded = arrayBufferToBase64(stringToArrayBuffer(JSON.stringify(blob)));
+    return { blob, text: BLOB_PREFIX + encoded };
+  }
+
+  /**
+   * Decode and verify a pasted blob. Throws when it is malformed, stale,
+   * tampered with, or (for answers) does not answer our offer.
+   */
+  static async open(
+    text: string,
+    expectedType: SignalingBlob['type'],
+    offer?: SignalingBlob
+  ): Promise<SignalingBlob> {
+    let blob: SignalingBlob;
+    try {
+      const encoded = text.trim().replace(BLOB_PREFIX, '').replace(/\s+/g, '');
+      blob = JSON.parse(arrayBufferToString(base64ToArrayBuffer(encoded)));
+    } catch (error) {
+      console.error('Failed to decode signaling blob:', error);
+      throw new Error('Not a valid connection ' + expectedType);
+    }
+
+    if (blob.type !== expectedType || !blob.sdp || !blob.certificate || !blob.signature) {
+      throw new Error('Not a valid connection ' + expectedType);
+    }
+    if (Date.now() - blob.timestamp > this.MAX_AGE_MS) {
+      throw new Error('This connection ' + expectedType + ' has expired');
+    }
+    if (expectedType === 'answer' && (!offer || blob.offerSignature !== offer.signature)) {
+      throw new Error('This answer belongs to a different offer');
+    }
+
+    let isValid = false;
+    try {
+      const signerKey = await CertificateManager.getInstance().importPublicKey(blob.certificate.publicKey);
+      isValid = await DigitalSigner.verifySignature(this.transcript(blob), blob.signature, signerKey);
+    } catch (error) {
+      console.error('Signaling signature verification failed:', error);
+    }
+    if (!isValid) {
+      throw new Error('Signature check failed: the connection ' + expectedType + ' was tampered with');
+    }
+
+    return blob;
+  }
+}
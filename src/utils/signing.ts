@@ -1,5 +1,5 @@
 import { arrayBufferToBase64, base64ToArrayBuffer } from './encoding';
-import { SigningKeyPair, DocumentSignature, Certificate } from '../types';
+import { SigningKeyPair, DocumentSignature, Certificate, SignatureBundle } from '../types';
 
 /**
  * Digital signing utilities
@@ -69,14 +69,31 @@ export class DigitalSigner {
     privateKey: CryptoKey,
     certificate: Certificate
   ): Promise<DocumentSignature> {
-    const documentHash = await this.hashDocument(file);
-    const signature = await this.signData(documentHash, privateKey);
+    return this.signDocumentHash(await this.hashDocument(file), privateKey, certificate);
+  }
 
+  /**
+   * Data covered by a document signature: the hash and when it was signed
+   */
+  private static documentTranscript(documentHash: string, timestamp: number): string {
+    return JSON.stringify({ documentHash, timestamp });
+  }
+
+  /**
+   * Sign a document by its Base64 SHA-256 hash, for callers that have
+   * already hashed it
+   */
+  static async signDocumentHash(
+    documentHash: string,
+    privateKey: CryptoKey,
+    certificate: Certificate
+  ): Promise<DocumentSignature> {
+    const timestamp = Date.now();
     return {
       documentHash,
-      signature,
+      signature: await this.signData(this.documentTranscript(documentHash, timestamp), privateKey),
       certificate,
-      timestamp: Date.now()
+      timestamp
     };
   }
 
@@ -89,24 +106,35 @@ export class DigitalSigner {
     publicKey: CryptoKey
   ): Promise<boolean> {
     try {
-      // Verify the document hash matches
-      const currentHash = await this.hashDocument(file);
-      if (currentHash !== documentSignature.documentHash) {
-        return false;
-      }
-
-      // Verify the signature
-      return await this.verifySignature(
-        documentSignature.documentHash,
-        documentSignature.signature,
-        publicKey
-      );
+      return await this.verifyDocumentHash(await this.hashDocument(file), documentSignature, publicKey);
     } catch (error) {
       console.error('Document verification failed:', error);
       return false;
     }
   }
 
+  /**
+   * Verify a document signature against the Base64 SHA-256 hash of the
+   * document as it was received
+   */
+  static async verifyDocumentHash(
+    documentHash: string,
+    documentSignature: DocumentSignature,
+    publicKey: CryptoKey
+  ): Promise<boolean> {
+    // Verify the document hash matches
+    if (documentHash !== documentSignature.documentHash) {
+      return false;
+    }
+
+    // Verify the signature
+    return this.verifySignature(
+      this.documentTranscript(documentSignature.documentHash, documentSignature.timestamp),
+      documentSignature.signature,
+      publicKey
+    );
+  }
+
   /**
    * Create a detached signature file
    */
@@ -122,27 +150,77 @@ export class DigitalSigner {
     });
   }
 
+  /**
+   * Create a detached file holding several signatures over one document
+   */
+  static createSignatureBundle(signatures: DocumentSignature[]): Blob {
+    const bundleData = {
+      version: '1.0',
+      algorithm: 'ECDSA-SHA256',
+      documentHash: signatures[0]?.documentHash,
+      signatures
+    };
+
+    return new Blob([JSON.stringify(bundleData, null, 2)], {
+      type: 'application/json'
+    });
+  }
+
   /**
    * Parse a signature file
    */
   static async parseSignatureFile(file: File): Promise<DocumentSignature | null> {
+    try {
+      const text = await file.text();
+      return this.toDocumentSignature(JSON.parse(text));
+    } catch (error) {
+      console.error('Failed to parse signature file:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Parse a signature bundle. A single signature file reads as a bundle
+   * of one.
+   */
+  static async parseSignatureBundle(file: File): Promise<SignatureBundle | null> {
     try {
       const text = await file.text();
       const data = JSON.parse(text);
-      
-      if (data.documentHash && data.signature && data.certificate) {
-        return {
-          documentHash: data.documentHash,
-          signature: data.signature,
-          certificate: data.certificate,
-          timestamp: data.timestamp || Date.now()
-        };
+
+      const entries: unknown[] = Array.isArray(data.signatures) ? data.signatures : [data];
+      const signatures = entries
+        .map(entry => this.toDocumentSignature(entry))
+        .filter((signature): signature is DocumentSignature => signature !== null);
+      if (signatures.length === 0 || signatures.length !== entries.length) {
+        return null;
       }
-      
-      return null;
+
+      // Every entry must be over the same document
+      const { documentHash } = signatures[0];
+      if (signatures.some(signature => signature.documentHash !== documentHash)) {
+        return null;
+      }
+
+      return { documentHash, signatures };
     } catch (error) {
-      console.error('Failed to parse signature file:', error);
+      console.error('Failed to parse signature bundle:', error);
       return null;
     }
   }
+
+  private static toDocumentSignature(data: unknown): DocumentSignature | null {
+    const entry = data as Partial<DocumentSignature> | null;
+    // The timestamp is signed, so a signature without one cannot be checked
+    if (entry?.documentHash && entry.signature && entry.certificate && typeof entry.timestamp === 'number') {
+      return {
+        documentHash: entry.documentHash,
+        signature: entry.signature,
+        certificate: entry.certificate,
+        timestamp: entry.timestamp
+      };
+    }
+
+    return null;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { Certificate, ChatTransport, RoomInfo, TransportEnvelope, TransportKind } from '../../types';
+
+type EnvelopeHandler = (envelope: TransportEnvelope) => void;
+
+/**
+ * Handler bookkeeping shared by every transport backend
+ */
+export abstract class BaseTransport implements ChatTransport {
+  abstract readonly kind: TransportKind;
+  private handlers = new Set<EnvelopeHandler>();
+
+  abstract connect(): Promise<void>;
+  abstract createRoom(roomCode: string, creatorCert: Certificate | null): Promise<void>;
+  abstract joinRoom(roomCode: string): Promise<RoomInfo | null>;
+  abstract resumeRoom(roomCode: string, asCreator: boolean): Promise<RoomInfo | null>;
+  abstract leaveRoom(roomCode: string): void;
+  abstract send(envelope: TransportEnvelope): void;
+  abstract close(): void;
+
+  /**
+   * Subscribe to incoming envelopes, returning an unsubscribe function
+   */
+  onMessage(handler: EnvelopeHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Hand an incoming envelope to every subscriber
+   */
+  protected deliver(envelope: TransportEnvelope): void {
+    this.handlers.forEach(handler => {
+      try {
+        handler(envelope);
+      } catch (error) {
+        console.error('Transport handler failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Hand on an envelope another member sent. Only the transport itself
+   * closes a room unsigned, so a member's unsigned close is dropped.
+   */
+  protected deliverFromPeer(envelope: TransportEnvelope): void {
+    if (envelope.type === 'room_closed' && !envelope.payload) {
+      return;
+    }
+    this.deliver(envelope);
+  }
+}
@@ -0,0 +1,60 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Certificate, RoomInfo, TransportEnvelope } from '../../types';
+import { BaseTransport } from './base';
+import { RoomRegistry } from './rooms';
+
+/**
+ * Cross-tab transport over the BroadcastChannel API (same browser only)
+ */
+export class BroadcastChannelTransport extends BaseTransport {
+  readonly kind = 'broadcast' as const;
+  private channel: BroadcastChannel | null = null;
+  private rooms = RoomRegistry.localStorage();
+  private ownerId = uuidv4();
+
+  constructor(private channelName: string = 'chat_channel') {
+    super();
+  }
+
+  async connect(): Promise<void> {
+    if (this.channel) {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent<TransportEnvelope>) => {
+      this.deliverFromPeer(event.data);
+    };
+  }
+
+  async createRoom(roomCode: string, creatorCert: Certificate | null): Promise<void> {
+    this.rooms.create(roomCode, this.ownerId, creatorCert);
+  }
+
+  async joinRoom(roomCode: string): Promise<RoomInfo | null> {
+    return this.rooms.join(roomCode, this.ownerId);
+  }
+
+  async resumeRoom(roomCode: string, asCreator: boolean): Promise<RoomInfo | null> {
+    return this.rooms.resume(roomCode, this.ownerId, asCreator);
+  }
+
+  leaveRoom(roomCode: string): void {
+    this.rooms.leave(roomCode, this.ownerId);
+  }
+
+  send(envelope: TransportEnvelope): void {
+    if (!this.channel) {
+      throw new Error('Transport not connected');
+    }
+    this.channel.postMessage(envelope);
+  }
+
+  close(): void {
+    if (this.channel) {
+      this.channel.onmessage = null;
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+}
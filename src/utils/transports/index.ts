@@ -0,0 +1,60 @@
+import { ChatTransport, TransportConfig, TransportKind } from '../../types';
+import { BroadcastChannelTransport } from './broadcastChannel';
+import { MemoryTransport } from './memory';
+import { SocketIoTransport } from './socketIo';
+import { WebRtcTransport } from './webrtc';
+
+export { BroadcastChannelTransport, MemoryTransport, SocketIoTransport, WebRtcTransport };
+
+/**
+ * Read the transport configuration from the Vite environment
+ */
+export function getTransportConfig(): TransportConfig {
+  const kind = (import.meta.env.VITE_CHAT_TRANSPORT || 'broadcast') as TransportKind;
+  return {
+    kind,
+    channelName: import.meta.env.VITE_CHAT_CHANNEL || undefined,
+    url: import.meta.env.VITE_RELAY_URL || undefined,
+    iceServers: import.meta.env.VITE_ICE_SERVERS
+      ? import.meta.env.VITE_ICE_SERVERS.split(',').map(urls => ({ urls: urls.trim() }))
+      : []
+  };
+}
+
+const TRANSPORT_KINDS: TransportKind[] = ['broadcast', 'socketio', 'memory', 'webrtc'];
+
+/**
+ * What is wrong with a transport configuration, or null when it can be used
+ */
+export function validateTransportConfig(config: TransportConfig): string | null {
+  if (!TRANSPORT_KINDS.includes(config.kind)) {
+    return `Unknown transport: ${config.kind}`;
+  }
+  if (config.kind === 'socketio' && !config.url) {
+    return 'Socket.IO transport requires a relay URL';
+  }
+  return null;
+}
+
+/**
+ * Create the transport backend named by the configuration
+ */
+export function createTransport(config: TransportConfig): ChatTransport {
+  const problem = validateTransportConfig(config);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  switch (config.kind) {
+    case 'broadcast':
+      return new BroadcastChannelTransport(config.channelName);
+    case 'socketio':
+      return new SocketIoTransport(config.url!);
+    case 'memory':
+      return new MemoryTransport(config.channelName);
+    case 'webrtc':
+      return new WebRtcTransport(config.iceServers);
+    default:
+      throw new Error(`Unknown transport: ${config.kind}`);
+  }
+}
@@ -0,0 +1,82 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Certificate, RoomInfo, TransportEnvelope } from '../../types';
+import { BaseTransport } from './base';
+import { RoomRegistry } from './rooms';
+
+// Connected transports per hub name, shared within this page
+const hubs = new Map<string, Set<MemoryTransport>>();
+const registries = new Map<string, RoomRegistry>();
+
+/**
+ * In-memory loopback transport. Every transport connected to the same hub
+ * receives what the others send, which makes two providers in one page talk
+ * to each other without any browser or network channel.
+ */
+export class MemoryTransport extends BaseTransport {
+  readonly kind = 'memory' as const;
+  private connected = false;
+  private ownerId = uuidv4();
+
+  constructor(private hubName: string = 'chat_channel') {
+    super();
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    const hub = hubs.get(this.hubName) || new Set<MemoryTransport>();
+    hub.add(this);
+    hubs.set(this.hubName, hub);
+    this.connected = true;
+  }
+
+  private get rooms(): RoomRegistry {
+    let registry = registries.get(this.hubName);
+    if (!registry) {
+      registry = RoomRegistry.inMemory();
+      registries.set(this.hubName, registry);
+    }
+    return registry;
+  }
+
+  async createRoom(roomCode: string, creatorCert: Certificate | null): Promise<void> {
+    this.rooms.create(roomCode, this.ownerId, creatorCert);
+  }
+
+  async joinRoom(roomCode: string): Promise<RoomInfo | null> {
+    return this.rooms.join(roomCode, this.ownerId);
+  }
+
+  async resumeRoom(roomCode: string, asCreator: boolean): Promise<RoomInfo | null> {
+    return this.rooms.resume(roomCode, this.ownerId, asCreator);
+  }
+
+  leaveRoom(roomCode: string): void {
+    this.rooms.leave(roomCode, this.ownerId);
+  }
+
+  send(envelope: TransportEnvelope): void {
+    if (!this.connected) {
+      throw new Error('Transport not connected');
+    }
+
+    // Deliver asynchronously and as a copy, like a real channel would
+    hubs.get(this.hubName)?.forEach(peer => {
+      if (peer !== this) {
+        const copy = structuredClone(envelope);
+        setTimeout(() => peer.deliverFromPeer(copy), 0);
+      }
+    });
+  }
+
+  close(): void {
+    const hub = hubs.get(this.hubName);
+    hub?.delete(this);
+    if (hub && hub.size === 0) {
+      hubs.delete(this.hubName);
+    }
+    this.connected = false;
+  }
+}
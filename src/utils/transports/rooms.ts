@@ -0,0 +1,101 @@
+import { Certificate, RoomInfo } from '../../types';
+
+interface RoomRecord {
+  creator: string;
+  creatorCert: Certificate | null;
+  created: number;
+  active: boolean;
+}
+
+type RoomTable = Record<string, RoomRecord>;
+
+/**
+ * Room registry for transports without a server, backed by whatever
+ * storage the transport can share with its peers
+ */
+export class RoomRegistry {
+  constructor(
+    private load: () => RoomTable,
+    private save: (rooms: RoomTable) => void
+  ) {}
+
+  /**
+   * Registry shared by every tab of this browser
+   */
+  static localStorage(key: string = 'chatRooms'): RoomRegistry {
+    return new RoomRegistry(
+      () => {
+        const rooms = localStorage.getItem(key);
+        return rooms ? JSON.parse(rooms) : {};
+      },
+      rooms => localStorage.setItem(key, JSON.stringify(rooms))
+    );
+  }
+
+  /**
+   * Registry shared only within this page
+   */
+  static inMemory(): RoomRegistry {
+    let table: RoomTable = {};
+    return new RoomRegistry(() => table, rooms => { table = rooms; });
+  }
+
+  create(roomCode: string, ownerId: string, creatorCert: Certificate | null): void {
+    const rooms = this.load();
+    // A room that is still open belongs to someone else's pairing
+    if (rooms[roomCode]?.active) {
+      throw new Error('Room already exists');
+    }
+    rooms[roomCode] = {
+      creator: ownerId,
+      creatorCert,
+      created: Date.now(),
+      active: true
+    };
+    this.save(rooms);
+  }
+
+  join(roomCode: string, ownerId: string): RoomInfo | null {
+    const room = this.load()[roomCode];
+
+    if (!room || !room.active) {
+      console.log('Room not found or inactive:', roomCode);
+      return null;
+    }
+
+    // Don't allow creator to join their own room
+    if (room.creator === ownerId) {
+      console.log('Cannot join your own room');
+      return null;
+    }
+
+    return { roomCode, creatorCert: room.creatorCert };
+  }
+
+  /**
+   * Back into a room after a reload, which gives us a new owner id. A
+   * creator takes the room over again so it can still close it.
+   */
+  resume(roomCode: string, ownerId: string, asCreator: boolean): RoomInfo | null {
+    const rooms = this.load();
+    const room = rooms[roomCode];
+    if (!room || !room.active) {
+      return null;
+    }
+
+    if (asCreator) {
+      room.creator = ownerId;
+      this.save(rooms);
+    }
+    return { roomCode, creatorCert: room.creatorCert };
+  }
+
+  leave(roomCode: string, ownerId: string): void {
+    const rooms = this.load();
+    if (rooms[roomCode]?.creator === ownerId) {
+      // If we're the creator, mark room as inactive
+      rooms[roomCode].active = false;
+      this.save(rooms);
+    }
+  }
+}
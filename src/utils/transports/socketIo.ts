@@ -0,0 +1,163 @@
+import { io, Socket } from 'socket.io-client';
+import { Certificate, RelayAck, RoomInfo, TransportEnvelope } from '../../types';
+import { BaseTransport } from './base';
+
+const REQUEST_TIMEOUT_MS = 5000;
+// After a reconnect the relay may not have noticed the old socket is gone,
+// so taking a room back is tried a few times before giving up on it
+const REJOIN_RETRY_MS = 5000;
+const MAX_REJOIN_ATTEMPTS = 6;
+// Relay secrets for taking back the rooms we created, kept for the life of the tab
+const RESUME_SECRETS_KEY = 'cipher-relay-rooms';
+
+const loadResumeSecrets = (): Record<string, string> =>
+  JSON.parse(sessionStorage.getItem(RESUME_SECRETS_KEY) || '{}');
+
+const saveResumeSecrets = (secrets: Record<string, string>) =>
+  sessionStorage.setItem(RESUME_SECRETS_KEY, JSON.stringify(secrets));
+
+/**
+ * Transport over a Socket.IO relay, for chats between different machines.
+ * The relay only ever sees the envelopes, never plaintext.
+ */
+export class SocketIoTransport extends BaseTransport {
+  readonly kind = 'socketio' as const;
+  private socket: Socket | null = null;
+  // Rooms we are in, and whether we created them, to rejoin after a reconnect
+  private rooms = new Map<string, boolean>();
+
+  constructor(private url: string) {
+    super();
+  }
+
+  connect(): Promise<void> {
+    if (this.socket) {
+      return Promise.resolve();
+    }
+
+    const socket = io(this.url, { transports: ['websocket'] });
+    this.socket = socket;
+    socket.on('envelope', (envelope: TransportEnvelope) => this.deliver(envelope));
+
+    return new Promise((resolve, reject) => {
+      let connected = false;
+      // A reconnected socket has a new id, which is in none of our rooms
+      socket.on('connect', () => {
+        if (connected) {
+          this.rooms.forEach((asCreator, roomCode) => this.rejoin(roomCode, asCreator));
+          return;
+        }
+        connected = true;
+        resolve();
+      });
+      socket.once('connect_error', (error) => {
+        if (connected) {
+          return;
+        }
+        console.error('Relay connection failed:', error);
+        // Let a later connect() start over
+        socket.removeAllListeners();
+        socket.disconnect();
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        reject(new Error('Relay connection failed'));
+      });
+    });
+  }
+
+  // Back into a room after a reconnect; the room is closed for us when the
+  // relay will not have us back
+  private async rejoin(roomCode: string, asCreator: boolean, attempt: number = 1): Promise<void> {
+    let room: RoomInfo | null = null;
+    try {
+      room = await this.resumeRoom(roomCode, asCreator);
+    } catch (error) {
+      console.warn('Failed to rejoin room after reconnecting:', error);
+    }
+    if (room || !this.rooms.has(roomCode)) {
+      return;
+    }
+    if (attempt < MAX_REJOIN_ATTEMPTS) {
+      setTimeout(() => this.rejoin(roomCode, asCreator, attempt + 1), REJOIN_RETRY_MS);
+      return;
+    }
+    this.rooms.delete(roomCode);
+    this.deliver({ type: 'room_closed', roomCode });
+  }
+
+  /**
+   * Send a room request and wait for the relay's answer
+   */
+  private async request(event: string, body: object): Promise<RelayAck> {
+    if (!this.socket) {
+      throw new Error('Transport not connected');
+    }
+    return this.socket.timeout(REQUEST_TIMEOUT_MS).emitWithAck(event, body);
+  }
+
+  async createRoom(roomCode: string, creatorCert: Certificate | null): Promise<void> {
+    const ack = await this.request('create_room', { roomCode, creatorCert });
+    if (!ack.ok) {
+      throw new Error(ack.error || 'Room creation failed');
+    }
+    if (ack.resumeSecret) {
+      saveResumeSecrets({ ...loadResumeSecrets(), [roomCode]: ack.resumeSecret });
+    }
+    this.rooms.set(roomCode, true);
+  }
+
+  async joinRoom(roomCode: string): Promise<RoomInfo | null> {
+    const ack = await this.request('join_room', { roomCode });
+    if (!ack.ok || !ack.room) {
+      console.log('Relay refused to join room:', ack.error);
+      return null;
+    }
+    this.rooms.set(roomCode, false);
+    return ack.room;
+  }
+
+  // The relay holds a creator's room for a while after it disconnects, so
+  // it can take it back with the secret it was given. Anyone else just
+  // joins again.
+  async resumeRoom(roomCode: string, asCreator: boolean): Promise<RoomInfo | null> {
+    if (!asCreator) {
+      return this.joinRoom(roomCode);
+    }
+    const resumeSecret = loadResumeSecrets()[roomCode];
+    if (!resumeSecret) {
+      return null;
+    }
+    const ack = await this.request('resume_room', { roomCode, resumeSecret });
+    if (!ack.ok || !ack.room) {
+      console.log('Relay refused to resume room:', ack.error);
+      return null;
+    }
+    this.rooms.set(roomCode, true);
+    return ack.room;
+  }
+
+  leaveRoom(roomCode: string): void {
+    this.socket?.emit('leave_room', { roomCode });
+    this.rooms.delete(roomCode);
+    const secrets = loadResumeSecrets();
+    delete secrets[roomCode];
+    saveResumeSecrets(secrets);
+  }
+
+  send(envelope: TransportEnvelope): void {
+    if (!this.socket) {
+      throw new Error('Transport not connected');
+    }
+    this.socket.emit('envelope', envelope);
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+    this.rooms.clear();
+  }
+}
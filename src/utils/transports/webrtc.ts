@@ -0,0 +1,216 @@
+import { RoomInfo, TransportEnvelope } from '../../types';
+import { BaseTransport } from './base';
+
+// DataChannel messages are split into frames well under the SCTP size limits
+const FRAME_SIZE = 16 * 1024;
+const ICE_GATHERING_TIMEOUT_MS = 5000;
+
+interface Frame {
+  i: number; // Frame index
+  n: number; // Frame count
+  d: string; // Slice of the serialized envelope
+}
+
+/**
+ * Serverless peer-to-peer transport over an RTCDataChannel.
+ *
+ * There is no signaling server: the offer and answer SDP come out of
+ * createOffer/acceptOffer and are carried to the other browser by hand.
+ * ICE candidates are gathered up front so a single blob is enough.
+ */
+export class WebRtcTransport extends BaseTransport {
+  readonly kind = 'webrtc' as const;
+  private peer: RTCPeerConnection | null = null;
+  private channel: RTCDataChannel | null = null;
+  private outbox: string[] = [];
+  private incomingFrames: string[] = [];
+  // The room announced by a verified offer, for joinRoom to hand back
+  private offeredRoom: RoomInfo | null = null;
+
+  constructor(private iceServers: RTCIceServer[] = []) {
+    super();
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to open until an offer or answer has been exchanged
+  }
+
+  /**
+   * Start a connection as the room creator and return the offer SDP
+   */
+  async createOffer(): Promise<string> {
+    // Let a previous peer finish sending (e.g. a rejection) before replacing it
+    await this.drain();
+    const peer = this.createPeer();
+    this.attachChannel(peer.createDataChannel('cipher-chat', { ordered: true }));
+
+    await peer.setLocalDescription(await peer.createOffer());
+    await this.waitForIceGathering(peer);
+    return peer.localDescription!.sdp;
+  }
+
+  /**
+   * Answer a creator's offer and return the answer SDP
+   */
+  async acceptOffer(offerSdp: string, room: RoomInfo): Promise<string> {
+    const peer = this.createPeer();
+    this.offeredRoom = room;
+
+    await peer.setRemoteDescription({ type: 'offer', sdp: offerSdp });
+    await peer.setLocalDescription(await peer.createAnswer());
+    await this.waitForIceGathering(peer);
+    return peer.localDescription!.sdp;
+  }
+
+  /**
+   * Complete the creator's side with the joiner's answer
+   */
+  async acceptAnswer(answerSdp: string): Promise<void> {
+    if (!this.peer) {
+      throw new Error('No offer has been created');
+    }
+    await this.peer.setRemoteDescription({ type: 'answer', sdp: answerSdp });
+  }
+
+  // The peer link is the room, so there is no registry to consult
+  async createRoom(): Promise<void> {
+    this.offeredRoom = null;
+  }
+
+  async joinRoom(roomCode: string): Promise<RoomInfo | null> {
+    return this.offeredRoom?.roomCode === roomCode ? this.offeredRoom : null;
+  }
+
+  // A reload tears down the peer connection, and only a fresh offer and
+  // answer carried by hand can set up another
+  async resumeRoom(): Promise<RoomInfo | null> {
+    return null;
+  }
+
+  leaveRoom(): void {
+    this.offeredRoom = null;
+    // Closing the channel flushes what is queued, then tears down the peer
+    if (this.channel) {
+      this.channel.close();
+    } else {
+      this.closePeer();
+    }
+  }
+
+  send(envelope: TransportEnvelope): void {
+    const text = JSON.stringify(envelope);
+    const count = Math.max(1, Math.ceil(text.length / FRAME_SIZE));
+
+    for (let i = 0; i < count; i++) {
+      const frame: Frame = { i, n: count, d: text.slice(i * FRAME_SIZE, (i + 1) * FRAME_SIZE) };
+      this.outbox.push(JSON.stringify(frame));
+    }
+    this.flush();
+  }
+
+  close(): void {
+    this.offeredRoom = null;
+    this.closePeer();
+  }
+
+  private createPeer(): RTCPeerConnection {
+    this.closePeer();
+    const peer = new RTCPeerConnection({ iceServers: this.iceServers });
+    peer.ondatachannel = (event) => this.attachChannel(event.channel);
+    this.peer = peer;
+    return peer;
+  }
+
+  private attachChannel(channel: RTCDataChannel): void {
+    this.channel = channel;
+    channel.onopen = () => this.flush();
+    channel.onmessage = (event: MessageEvent<string>) => this.receive(event.data);
+    channel.onclose = () => {
+      if (this.channel === channel) {
+        this.closePeer();
+      }
+    };
+  }
+
+  private flush(): void {
+    if (this.channel?.readyState !== 'open') {
+      return;
+    }
+    while (this.outbox.length > 0) {
+      this.channel.send(this.outbox.shift()!);
+    }
+  }
+
+  private receive(data: string): void {
+    try {
+      const frame: Frame = JSON.parse(data);
+      if (frame.i === 0) {
+        this.incomingFrames = [];
+      }
+      this.incomingFrames.push(frame.d);
+
+      if (frame.i === frame.n - 1) {
+        const envelope: TransportEnvelope = JSON.parse(this.incomingFrames.join(''));
+        this.incomingFrames = [];
+        this.deliverFromPeer(envelope);
+      }
+    } catch (error) {
+      console.error('Dropping malformed DataChannel frame:', error);
+      this.incomingFrames = [];
+    }
+  }
+
+  private drain(): Promise<void> {
+    const channel = this.channel;
+    if (!channel || channel.readyState !== 'open' || channel.bufferedAmount === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      const timeout = window.setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS);
+      channel.bufferedAmountLowThreshold = 0;
+      channel.addEventListener('bufferedamountlow', () => {
+        window.clearTimeout(timeout);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  private waitForIceGathering(peer: RTCPeerConnection): Promise<void> {
+    if (peer.iceGatheringState === 'complete') {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      const timeout = window.setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+      function done() {
+        window.clearTimeout(timeout);
+        peer.removeEventListener('icegatheringstatechange', onChange);
+        resolve();
+      }
+      function onChange() {
+        if (peer.iceGatheringState === 'complete') {
+          done();
+        }
+      }
+      peer.addEventListener('icegatheringstatechange', onChange);
+    });
+  }
+
+  private closePeer(): void {
+    if (this.channel) {
+      this.channel.onopen = null;
+      this.channel.onmessage = null;
+      this.channel.onclose = null;
+      this.channel.close();
+      this.channel = null;
+    }
+    if (this.peer) {
+      this.peer.ondatachannel = null;
+      this.peer.close();
+      this.peer = null;
+    }
+    this.outbox = [];
+    this.incomingFrames = [];
+  }
+}
@@ -0,0 +1,194 @@
+import { CertificateAuthority, TrustAnchor } from '../types';
+import { base64ToArrayBuffer } from './encoding';
+import { IdentityKeys } from './identity';
+
+// Anchors added by hand or pinned at pairing are kept across reloads;
+// this page's own CA is not, as its private key goes with the page
+const STORAGE_KEY = 'cipher-trust-anchors';
+const EXPORT_TYPE = 'cipher-trust-anchors';
+// Issuer ids of long-term identities, which are derived from their keys
+const IDENTITY_PREFIX = 'cipher-id-';
+
+/**
+ * Public keys of the certificate authorities this device trusts, keyed by
+ * issuer id. Every tab runs its own CA, so a peer's issuer is pinned the
+ * first time it is seen at pairing and must keep the same key after that.
+ */
+export class TrustStore {
+  private static instance: TrustStore;
+  private anchors = new Map<string, TrustAnchor>();
+
+  private constructor() {
+    this.load();
+  }
+
+  static getInstance(): TrustStore {
+    if (!TrustStore.instance) {
+      TrustStore.instance = new TrustStore();
+    }
+    return TrustStore.instance;
+  }
+
+  list(): TrustAnchor[] {
+    return [...this.anchors.values()].sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  /**
+   * The anchor for a certificate's issuer, if it is trusted
+   */
+  get(issuerId: string): TrustAnchor | null {
+    return this.anchors.get(issuerId) || null;
+  }
+
+  /**
+   * Whether an issuer's key is one its id allows. Identity ids are derived
+   * from their key, so nobody can claim one with a key of their own.
+   */
+  static async keyMatchesId(authority: CertificateAuthority): Promise<boolean> {
+    if (!authority.id.startsWith(IDENTITY_PREFIX)) {
+      return true;
+    }
+    try {
+      return (await IdentityKeys.issuerId(authority.publicKey)) === authority.id;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Trust this page's own CA. Throws if its id is already trusted with
+   * another key.
+   */
+  async addLocal(authority: CertificateAuthority): Promise<void> {
+    await this.checkNew(authority);
+    this.add(authority, 'local');
+  }
+
+  /**
+   * Put back an anchor saved with a session, such as this page's CA from
+   * before a reload
+   */
+  restore(anchor: TrustAnchor): boolean {
+    const existing = this.anchors.get(anchor.id);
+    if (existing) {
+      return existing.publicKey === anchor.publicKey;
+    }
+    this.anchors.set(anchor.id, { ...anchor });
+    this.save();
+    return true;
+  }
+
+  /**
+   * Trust on first use: remember an issuer not seen before. Throws if the
+   * issuer is already known under a different key.
+   */
+  async pin(authority: CertificateAuthority): Promise<void> {
+    await this.checkNew(authority);
+    if (!this.anchors.has(authority.id)) {
+      this.add(authority, 'pinned');
+    }
+  }
+
+  remove(issuerId: string): void {
+    if (this.anchors.get(issuerId)?.source === 'local') {
+      throw new Error('This session\'s own authority cannot be removed');
+    }
+    this.anchors.delete(issuerId);
+    this.save();
+  }
+
+  /**
+   * Public keys of every anchor, to be imported on another device
+   */
+  export(): string {
+    return JSON.stringify({
+      type: EXPORT_TYPE,
+      anchors: this.list().map(({ id, name, publicKey }) => ({ id, name, publicKey }))
+    }, null, 2);
+  }
+
+  /**
+   * Add the anchors in an exported file. Nothing is added if any of them
+   * is malformed or conflicts with a key already trusted for its issuer.
+   * Returns how many were new.
+   */
+  async import(text: string): Promise<number> {
+    let parsed: { type?: string; anchors?: CertificateAuthority[] };
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Not a trust anchor file');
+    }
+    if (parsed?.type !== EXPORT_TYPE || !Array.isArray(parsed.anchors)) {
+      throw new Error('Not a trust anchor file');
+    }
+
+    const incoming: CertificateAuthority[] = [];
+    for (const anchor of parsed.anchors) {
+      if (typeof anchor?.id !== 'string' || typeof anchor.name !== 'string' || typeof anchor.publicKey !== 'string') {
+        throw new Error('Trust anchor file is malformed');
+      }
+      try {
+        await window.crypto.subtle.importKey(
+          'raw',
+          base64ToArrayBuffer(anchor.publicKey),
+          { name: 'ECDSA', namedCurve: 'P-256' },
+          false,
+          ['verify']
+        );
+      } catch {
+        throw new Error(`Trust anchor ${anchor.name} does not hold a valid key`);
+      }
+      if (!(await TrustStore.keyMatchesId(anchor))) {
+        throw new Error(`Trust anchor ${anchor.name} does not hold the key its id names`);
+      }
+      const existing = this.anchors.get(anchor.id);
+      if (existing && existing.publicKey !== anchor.publicKey) {
+        throw new Error(`Trust anchor ${anchor.name} conflicts with the key already trusted for it`);
+      }
+      if (!existing) {
+        incoming.push({ id: anchor.id, name: anchor.name, publicKey: anchor.publicKey });
+      }
+    }
+
+    incoming.forEach(anchor => this.add(anchor, 'imported'));
+    return incoming.length;
+  }
+
+  // An anchor may only be added under an id its key matches, and never in
+  // place of another key for the same id
+  private async checkNew(authority: CertificateAuthority): Promise<void> {
+    if (!(await TrustStore.keyMatchesId(authority))) {
+      throw new Error(`Issuer ${authority.id} does not hold the key its id names`);
+    }
+    const existing = this.anchors.get(authority.id);
+    if (existing && existing.publicKey !== authority.publicKey) {
+      throw new Error(`Issuer ${authority.id} is already trusted with a different key`);
+    }
+  }
+
+  private add(authority: CertificateAuthority, source: TrustAnchor['source']): void {
+    this.anchors.set(authority.id, {
+      id: authority.id,
+      name: authority.name,
+      publicKey: authority.publicKey,
+      source,
+      addedAt: Date.now()
+    });
+    this.save();
+  }
+
+  private load(): void {
+    try {
+      const saved: TrustAnchor[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      saved.forEach(anchor => this.anchors.set(anchor.id, anchor));
+    } catch (error) {
+      console.warn('Failed to load trust anchors:', error);
+    }
+  }
+
+  private save(): void {
+    const kept = this.list().filter(anchor => anchor.source !== 'local');
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  }
+}
@@ -0,0 +1,285 @@
+const DB_NAME = 'cipher-vault';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const RECORD_STORE = 'records';
+const META_KEY = 'vault';
+
+// Set while a vault exists, so the default ephemeral mode never opens IndexedDB
+const VAULT_FLAG = 'cipher-vault';
+
+const PBKDF2_ITERATIONS = 600000;
+// Encrypted under the vault key to tell a wrong passphrase from a right one
+const CHECK_VALUE = 'cipher-vault-v1';
+
+interface VaultMeta {
+  salt: Uint8Array;
+  iterations: number;
+  check: { iv: Uint8Array; data: ArrayBuffer };
+  retentionMs: number | null;
+  createdAt: number;
+}
+
+// One encrypted value. The record key is bound in as additional data so
+// records cannot be swapped around on disk.
+interface VaultRecord {
+  key: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  blobType?: string; // Set for raw file contents, which skip JSON
+  updatedAt: number; // Left in the clear for retention pruning
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(META_STORE);
+      request.result.createObjectStore(RECORD_STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const deriveVaultKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await window.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Opt-in encrypted storage in IndexedDB. Every value is sealed with
+ * AES-GCM under a key derived from the user's passphrase with PBKDF2;
+ * the key only lives in memory while the vault is unlocked.
+ */
+export class Vault {
+  private db: IDBDatabase | null;
+  private key: CryptoKey | null;
+  private retention: number | null;
+
+  private constructor(db: IDBDatabase, key: CryptoKey, retentionMs: number | null) {
+    this.db = db;
+    this.key = key;
+    this.retention = retentionMs;
+  }
+
+  /**
+   * Whether this browser can hold a vault
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.indexedDB;
+  }
+
+  /**
+   * Whether a vault has been set up on this device
+   */
+  static exists(): boolean {
+    return localStorage.getItem(VAULT_FLAG) !== null;
+  }
+
+  /**
+   * Set up a new vault, replacing any existing one
+   */
+  static async create(passphrase: string, retentionMs: number | null): Promise<Vault> {
+    if (!passphrase) {
+      throw new Error('A passphrase is required');
+    }
+    await this.wipe();
+
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveVaultKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const data = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(META_KEY) },
+      key,
+      new TextEncoder().encode(CHECK_VALUE)
+    );
+    const meta: VaultMeta = {
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      check: { iv, data },
+      retentionMs,
+      createdAt: Date.now()
+    };
+
+    const db = await openDatabase();
+    await toPromise(db.transaction(META_STORE, 'readwrite').objectStore(META_STORE).put(meta, META_KEY));
+    localStorage.setItem(VAULT_FLAG, '1');
+    return new Vault(db, key, retentionMs);
+  }
+
+  /**
+   * Open the vault with its passphrase. Records past the retention period
+   * are dropped on the way in.
+   */
+  static async unlock(passphrase: string): Promise<Vault> {
+    const db = await openDatabase();
+    const meta: VaultMeta | undefined = await toPromise(
+      db.transaction(META_STORE).objectStore(META_STORE).get(META_KEY)
+    );
+    if (!meta) {
+      db.close();
+      throw new Error('No vault on this device');
+    }
+
+    const key = await deriveVaultKey(passphrase, meta.salt, meta.iterations);
+    try {
+      await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: meta.check.iv, additionalData: new TextEncoder().encode(META_KEY) },
+        key,
+        meta.check.data
+      );
+    } catch {
+      db.close();
+      throw new Error('Wrong passphrase');
+    }
+
+    const vault = new Vault(db, key, meta.retentionMs);
+    await vault.prune();
+    return vault;
+  }
+
+  /**
+   * Delete the vault and everything in it
+   */
+  static async wipe(): Promise<void> {
+    localStorage.removeItem(VAULT_FLAG);
+    if (!this.isSupported()) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const request = window.indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      // Another tab still has it open; it goes once that tab lets go
+      request.onblocked = () => resolve();
+    });
+  }
+
+  get isLocked(): boolean {
+    return this.key === null;
+  }
+
+  // How long records are kept in milliseconds, or null to keep them until wiped
+  get retentionMs(): number | null {
+    return this.retention;
+  }
+
+  /**
+   * Forget the key and close the database
+   */
+  lock(): void {
+    this.key = null;
+    this.db?.close();
+    this.db = null;
+  }
+
+  async setRetention(retentionMs: number | null): Promise<void> {
+    const db = this.open().db;
+    const meta: VaultMeta = await toPromise(db.transaction(META_STORE).objectStore(META_STORE).get(META_KEY));
+    await toPromise(
+      db.transaction(META_STORE, 'readwrite').objectStore(META_STORE).put({ ...meta, retentionMs }, META_KEY)
+    );
+    this.retention = retentionMs;
+    await this.prune();
+  }
+
+  /**
+   * Store a JSON-serializable value
+   */
+  async put(key: string, value: unknown): Promise<void> {
+    await this.write(key, new TextEncoder().encode(JSON.stringify(value)));
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const plain = await this.read(key);
+    return plain ? (JSON.parse(new TextDecoder().decode(plain.data)) as T) : null;
+  }
+
+  /**
+   * Store a file's contents as they are
+   */
+  async putBlob(key: string, blob: Blob): Promise<void> {
+    await this.write(key, new Uint8Array(await blob.arrayBuffer()), blob.type);
+  }
+
+  async getBlob(key: string): Promise<Blob | null> {
+    const plain = await this.read(key);
+    return plain ? new Blob([plain.data], { type: plain.blobType || '' }) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await toPromise(this.open().db.transaction(RECORD_STORE, 'readwrite').objectStore(RECORD_STORE).delete(key));
+  }
+
+  /**
+   * Keys of every record under a prefix
+   */
+  async keys(prefix: string = ''): Promise<string[]> {
+    const all = await toPromise(this.open().db.transaction(RECORD_STORE).objectStore(RECORD_STORE).getAllKeys());
+    return all.map(String).filter(key => key.startsWith(prefix));
+  }
+
+  /**
+   * Drop records that have not been written within the retention period
+   */
+  async prune(): Promise<void> {
+    if (this.retention === null) {
+      return;
+    }
+    const cutoff = Date.now() - this.retention;
+    const records: VaultRecord[] = await toPromise(
+      this.open().db.transaction(RECORD_STORE).objectStore(RECORD_STORE).getAll()
+    );
+    const stale = records.filter(record => record.updatedAt < cutoff);
+    await Promise.all(stale.map(record => this.delete(record.key)));
+  }
+
+  private open(): { db: IDBDatabase; key: CryptoKey } {
+    if (!this.db || !this.key) {
+      throw new Error('Vault is locked');
+    }
+    return { db: this.db, key: this.key };
+  }
+
+  private async write(key: string, plain: Uint8Array, blobType?: string): Promise<void> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const data = await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(key) },
+      this.open().key,
+      plain
+    );
+    const record: VaultRecord = { key, iv, data, blobType, updatedAt: Date.now() };
+    await toPromise(this.open().db.transaction(RECORD_STORE, 'readwrite').objectStore(RECORD_STORE).put(record));
+  }
+
+  private async read(key: string): Promise<{ data: ArrayBuffer; blobType?: string } | null> {
+    const { db, key: vaultKey } = this.open();
+    const record: VaultRecord | undefined = await toPromise(db.transaction(RECORD_STORE).objectStore(RECORD_STORE).get(key));
+    if (!record) {
+      return null;
+    }
+    const data = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: record.iv, additionalData: new TextEncoder().encode(key) },
+      vaultKey,
+      record.data
+    );
+    return { data, blobType: record.blobType };
+  }
+}
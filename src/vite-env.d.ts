@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CHAT_TRANSPORT?: 'broadcast' | 'socketio' | 'memory' | 'webrtc';
+  readonly VITE_CHAT_CHANNEL?: string;
+  readonly VITE_RELAY_URL?: string;
+  readonly VITE_ICE_SERVERS?: string; // Comma-separated STUN/TURN URLs for WebRTC
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}